@@ -4,22 +4,44 @@
 -- 1. Enable the pgvector extension
 CREATE EXTENSION IF NOT EXISTS vector;
 
--- 2. Create the documents table
+-- 2. Create the sources and documents tables
+-- Parent documents written by ingest({ sources: true }); chunks reference them
+CREATE TABLE IF NOT EXISTS documents_sources (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  content text,
+  url text,
+  title text,
+  metadata jsonb DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
 CREATE TABLE IF NOT EXISTS documents (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   content text NOT NULL,
   embedding vector(1536), -- Adjust dimensions based on your embedding model
   metadata jsonb DEFAULT '{}',
+  content_hash text, -- Optional: used by store({ hashColumn: 'content_hash' })
+  source_id text REFERENCES documents_sources(id) ON DELETE CASCADE,
   user_id uuid,
   created_at timestamptz DEFAULT now(),
   updated_at timestamptz DEFAULT now()
 );
 
 -- 3. Create indexes for better performance
-CREATE INDEX IF NOT EXISTS documents_embedding_idx ON documents USING ivfflat (embedding vector_cosine_ops);
+-- HNSW builds on an empty table and needs no tuning to the row count. The ops
+-- class must match the search metric: vector_cosine_ops, vector_ip_ops or
+-- vector_l2_ops. To switch or rebuild, use ai.schema.createIndex({ replace: true }).
+CREATE INDEX IF NOT EXISTS documents_embedding_idx ON documents USING hnsw (embedding vector_cosine_ops) WITH (m = 16, ef_construction = 64);
 CREATE INDEX IF NOT EXISTS documents_user_id_idx ON documents(user_id);
 CREATE INDEX IF NOT EXISTS documents_created_at_idx ON documents(created_at);
 CREATE INDEX IF NOT EXISTS documents_metadata_idx ON documents USING gin(metadata);
+CREATE INDEX IF NOT EXISTS documents_content_hash_idx ON documents(content_hash);
+-- Full-text index for match_documents_text with the default 'english' language
+CREATE INDEX IF NOT EXISTS documents_content_fts_idx ON documents USING gin (to_tsvector('english', content));
+CREATE INDEX IF NOT EXISTS documents_source_id_idx ON documents(source_id);
+-- Used to fetch neighbouring chunks in grouped search
+CREATE INDEX IF NOT EXISTS documents_metadata_source_id_idx ON documents ((metadata->>'source_id'));
 
 -- 4. Create a function to automatically update the updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -28,21 +50,111 @@ BEGIN
   NEW.updated_at = now();
   RETURN NEW;
 END;
-$$ language 'plpgsql';
+$$ LANGUAGE plpgsql;
 
--- 5. Create trigger for automatic timestamp updates
+-- 5. Create triggers for automatic timestamp updates
 CREATE TRIGGER update_documents_updated_at
   BEFORE UPDATE ON documents
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
--- 6. Create the main RPC function for similarity search
+CREATE TRIGGER update_documents_sources_updated_at
+  BEFORE UPDATE ON documents_sources
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 6. Create the RPC functions for similarity search
+-- These statements are the ones ai.schema.generate() emits, rendered for the
+-- documents table; generate.test.ts checks that the two stay in sync.
+-- metric selects the pgvector operator: 'cosine' (<=>), 'inner_product' (<#>)
+-- or 'l2' (<->). similarity is always higher-is-better: 1 - cosine distance,
+-- the inner product, or 1 / (1 + L2 distance).
+
+-- RPC functions used by EmbeddingsClient. Earlier signatures are dropped so
+-- PostgREST never sees two overloads.
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, text, jsonb);
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, text, jsonb, text);
+DROP FUNCTION IF EXISTS match_documents_filtered(vector, float, int, text, jsonb);
+DROP FUNCTION IF EXISTS match_documents_filtered(vector, float, int, text, jsonb, text);
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, text, jsonb, text, jsonb);
+DROP FUNCTION IF EXISTS match_documents_filtered(vector, float, int, text, jsonb, text, jsonb);
+DROP FUNCTION IF EXISTS match_documents_page(vector, float, int, text, jsonb, text, jsonb, float, uuid);
+DROP FUNCTION IF EXISTS match_documents_text(text, int, text, text, jsonb, jsonb, jsonb);
+DROP FUNCTION IF EXISTS hybrid_search(vector, text, float, int, text);
+
+-- Distance expression for a metric. Embeddings over 2000 dimensions are
+-- compared as halfvec so the expression matches the index.
+CREATE OR REPLACE FUNCTION embedding_distance_sql(metric text, dimensions int)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  operator text := CASE metric
+    WHEN 'cosine' THEN '<=>'
+    WHEN 'inner_product' THEN '<#>'
+    WHEN 'l2' THEN '<->'
+  END;
+BEGIN
+  IF operator IS NULL THEN
+    RAISE EXCEPTION 'Unknown distance metric: %', metric;
+  END IF;
+  IF dimensions > 2000 THEN
+    RETURN format('(embedding::halfvec(%s) %s $1::halfvec(%s))', dimensions, operator, dimensions);
+  END IF;
+  RETURN format('(embedding %s $1)', operator);
+END;
+$$;
+
+-- Converts a distance into a similarity where higher is better
+CREATE OR REPLACE FUNCTION embedding_similarity_sql(metric text, distance text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE metric
+    WHEN 'cosine' THEN format('(1 - %s)', distance)
+    WHEN 'inner_product' THEN format('(-1 * %s)', distance)
+    ELSE format('(1 / (1 + %s))', distance)
+  END;
+$$;
+
+-- search_settings carries per-query tuning from search({ tuning, exact }).
+-- set_config(..., true) is SET LOCAL: the settings end with the request's transaction.
+CREATE OR REPLACE FUNCTION apply_search_settings(settings jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF settings IS NULL THEN
+    RETURN;
+  END IF;
+  IF settings ? 'ef_search' THEN
+    PERFORM set_config('hnsw.ef_search', (settings->>'ef_search')::int::text, true);
+  END IF;
+  IF settings ? 'probes' THEN
+    PERFORM set_config('ivfflat.probes', (settings->>'probes')::int::text, true);
+  END IF;
+  -- Requires pgvector 0.8; keeps scanning the index until enough rows pass the filters
+  IF settings ? 'iterative_scan' THEN
+    PERFORM set_config('hnsw.iterative_scan', settings->>'iterative_scan', true);
+    PERFORM set_config('ivfflat.iterative_scan', settings->>'iterative_scan', true);
+  END IF;
+  -- Exact search: without index scans the planner sorts every row by distance
+  IF (settings->>'exact')::boolean THEN
+    PERFORM set_config('enable_indexscan', 'off', true);
+  END IF;
+END;
+$$;
+
 CREATE OR REPLACE FUNCTION match_documents(
-  query_embedding vector(1536),
+  query_embedding vector,
   match_threshold float DEFAULT 0.8,
   match_count int DEFAULT 10,
   table_name text DEFAULT 'documents',
-  filters jsonb DEFAULT '{}'
+  filters jsonb DEFAULT '{}',
+  metric text DEFAULT 'cosine',
+  search_settings jsonb DEFAULT NULL
 )
 RETURNS TABLE (
   id uuid,
@@ -55,39 +167,194 @@ RETURNS TABLE (
 LANGUAGE plpgsql
 AS $$
 DECLARE
+  distance_sql text := embedding_distance_sql(metric, vector_dims(query_embedding));
+  similarity_sql text := embedding_similarity_sql(metric, distance_sql);
   where_clause text := '';
   filter_key text;
   filter_value jsonb;
 BEGIN
-  -- Build WHERE clause from filters
-  IF filters != '{}' THEN
-    where_clause := ' AND ';
-    FOR filter_key, filter_value IN SELECT * FROM jsonb_each(filters) LOOP
-      where_clause := where_clause || filter_key || ' = ' || quote_literal(filter_value #>> '{}') || ' AND ';
-    END LOOP;
-    -- Remove trailing ' AND '
-    where_clause := rtrim(where_clause, ' AND ');
+  PERFORM apply_search_settings(search_settings);
+
+  FOR filter_key, filter_value IN SELECT * FROM jsonb_each(filters) LOOP
+    where_clause := where_clause || format(' AND %I = %L', filter_key, filter_value #>> '{}');
+  END LOOP;
+
+  RETURN QUERY
+  EXECUTE format('
+    SELECT id, content, metadata, %s::float AS similarity, created_at, updated_at
+    FROM %I
+    WHERE %s > $2 %s
+    ORDER BY %s
+    LIMIT $3
+  ', similarity_sql, table_name, similarity_sql, where_clause, distance_sql)
+  USING query_embedding, match_threshold, match_count;
+END;
+$$;
+
+-- 7. Typed filters used by search({ where }) and hybridSearch({ where })
+-- compile_filter turns the JSON produced by compileFilter() into a WHERE
+-- expression. Column names only pass through %I and values through %L, so
+-- nothing from the filter reaches the query unquoted. Metadata paths compare
+-- as jsonb; plain columns compare against literals coerced to their type.
+CREATE OR REPLACE FUNCTION compile_filter(filter jsonb)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  op text := filter->>'op';
+  is_path boolean := jsonb_array_length(COALESCE(filter->'path', '[]'::jsonb)) > 0;
+  target text;
+  literal text;
+  literals text;
+  parts text[];
+BEGIN
+  IF op IN ('and', 'or') THEN
+    SELECT array_agg(compile_filter(arg)) INTO parts
+    FROM jsonb_array_elements(filter->'args') AS arg;
+    RETURN '(' || array_to_string(parts, CASE WHEN op = 'and' THEN ' AND ' ELSE ' OR ' END) || ')';
+  END IF;
+
+  IF op = 'not' THEN
+    RETURN '(NOT ' || compile_filter(filter->'arg') || ')';
+  END IF;
+
+  IF is_path THEN
+    target := format('(%I #> %L)', filter->>'column', ARRAY(SELECT jsonb_array_elements_text(filter->'path')));
+    literal := format('%L::jsonb', filter->'value');
+  ELSE
+    target := format('%I', filter->>'column');
+    literal := format('%L', filter->'value' #>> '{}');
   END IF;
 
+  CASE op
+    WHEN 'exists' THEN
+      RETURN format('(%s IS NOT NULL)', target);
+    WHEN 'eq' THEN
+      IF filter->'value' = 'null'::jsonb THEN
+        RETURN CASE WHEN is_path
+          THEN format('(%1$s IS NULL OR %1$s = ''null''::jsonb)', target)
+          ELSE format('(%s IS NULL)', target) END;
+      END IF;
+      RETURN format('(%s = %s)', target, literal);
+    WHEN 'neq' THEN
+      IF filter->'value' = 'null'::jsonb THEN
+        RETURN CASE WHEN is_path
+          THEN format('(%1$s IS NOT NULL AND %1$s <> ''null''::jsonb)', target)
+          ELSE format('(%s IS NOT NULL)', target) END;
+      END IF;
+      RETURN format('(%s IS DISTINCT FROM %s)', target, literal);
+    WHEN 'gt' THEN
+      RETURN format('(%s > %s)', target, literal);
+    WHEN 'gte' THEN
+      RETURN format('(%s >= %s)', target, literal);
+    WHEN 'lt' THEN
+      RETURN format('(%s < %s)', target, literal);
+    WHEN 'lte' THEN
+      RETURN format('(%s <= %s)', target, literal);
+    WHEN 'in' THEN
+      SELECT string_agg(
+        CASE WHEN is_path THEN format('%L::jsonb', item) ELSE format('%L', item #>> '{}') END,
+        ', '
+      ) INTO literals
+      FROM jsonb_array_elements(filter->'value') AS item;
+      RETURN format('(%s IN (%s))', target, literals);
+    WHEN 'contains' THEN
+      RETURN format('(%s @> %L::jsonb)', target, filter->'value');
+    ELSE
+      RAISE EXCEPTION 'Unknown filter operator: %', op;
+  END CASE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION match_documents_filtered(
+  query_embedding vector,
+  match_threshold float DEFAULT 0.8,
+  match_count int DEFAULT 10,
+  table_name text DEFAULT 'documents',
+  filter jsonb DEFAULT NULL,
+  metric text DEFAULT 'cosine',
+  search_settings jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  metadata jsonb,
+  similarity float,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  distance_sql text := embedding_distance_sql(metric, vector_dims(query_embedding));
+  similarity_sql text := embedding_similarity_sql(metric, distance_sql);
+BEGIN
+  PERFORM apply_search_settings(search_settings);
+
   RETURN QUERY
   EXECUTE format('
-    SELECT 
-      id,
-      content,
-      metadata,
-      (1 - (embedding <=> $1))::float as similarity,
-      created_at,
-      updated_at
+    SELECT id, content, metadata, %s::float AS similarity, created_at, updated_at
     FROM %I
-    WHERE (1 - (embedding <=> $1)) > $2 %s
-    ORDER BY embedding <=> $1
+    WHERE %s > $2 AND %s
+    ORDER BY %s
     LIMIT $3
-  ', table_name, where_clause)
+  ', similarity_sql, table_name, similarity_sql,
+     CASE WHEN filter IS NULL THEN 'true' ELSE compile_filter(filter) END,
+     distance_sql)
   USING query_embedding, match_threshold, match_count;
 END;
 $$;
 
--- 7. Create a specialized function for metadata filtering
+-- 8. Cursor pagination
+-- Keyset pagination for search({ paginate, cursor }). The client passes the
+-- last row's similarity and id from the cursor.
+CREATE OR REPLACE FUNCTION match_documents_page(
+  query_embedding vector,
+  match_threshold float DEFAULT 0.8,
+  match_count int DEFAULT 10,
+  table_name text DEFAULT 'documents',
+  filter jsonb DEFAULT NULL,
+  metric text DEFAULT 'cosine',
+  search_settings jsonb DEFAULT NULL,
+  after_similarity float DEFAULT NULL,
+  after_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  metadata jsonb,
+  similarity float,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  distance_sql text := embedding_distance_sql(metric, vector_dims(query_embedding));
+  similarity_sql text := embedding_similarity_sql(metric, distance_sql);
+BEGIN
+  PERFORM apply_search_settings(search_settings);
+
+  -- Rows strictly after the cursor in (similarity DESC, id) order. Ordering
+  -- by the similarity itself keeps the keyset exact, at the cost of the
+  -- vector index.
+  RETURN QUERY
+  EXECUTE format('
+    SELECT id, content, metadata, %s::float AS similarity, created_at, updated_at
+    FROM %I
+    WHERE %s > $2 AND %s
+      AND ($4 IS NULL OR %s::float < $4 OR (%s::float = $4 AND id > $5))
+    ORDER BY %s::float DESC, id
+    LIMIT $3
+  ', similarity_sql, table_name, similarity_sql,
+     CASE WHEN filter IS NULL THEN 'true' ELSE compile_filter(filter) END,
+     similarity_sql, similarity_sql, similarity_sql)
+  USING query_embedding, match_threshold, match_count, after_similarity, after_id;
+END;
+$$;
+
+-- 9. Create a specialized function for metadata filtering
 CREATE OR REPLACE FUNCTION match_documents_with_metadata(
   query_embedding vector(1536),
   match_threshold float DEFAULT 0.8,
@@ -125,13 +392,20 @@ BEGIN
 END;
 $$;
 
--- 8. Create function for hybrid search (combine similarity with text search)
+-- 10. Create function for hybrid search (combine similarity with text search)
+-- text_rank is ts_rank_cd normalized to [0, 1) so the weights are meaningful.
+-- EmbeddingsClient.hybridSearch() fuses match_documents and
+-- match_documents_text client-side instead; this function is kept for SQL use.
+-- Its signature without weights and language is dropped in section 6.
 CREATE OR REPLACE FUNCTION hybrid_search(
   query_embedding vector(1536),
   search_text text,
   match_threshold float DEFAULT 0.8,
   match_count int DEFAULT 10,
-  table_name text DEFAULT 'documents'
+  table_name text DEFAULT 'documents',
+  vector_weight float DEFAULT 0.7,
+  text_weight float DEFAULT 0.3,
+  language text DEFAULT 'english'
 )
 RETURNS TABLE (
   id uuid,
@@ -148,38 +422,228 @@ AS $$
 BEGIN
   RETURN QUERY
   EXECUTE format('
-    SELECT 
+    SELECT
       id,
       content,
       metadata,
       (1 - (embedding <=> $1))::float as similarity,
-      ts_rank(to_tsvector(content), plainto_tsquery($2))::float as text_rank,
-      ((1 - (embedding <=> $1)) * 0.7 + ts_rank(to_tsvector(content), plainto_tsquery($2)) * 0.3)::float as combined_score,
+      ts_rank_cd(to_tsvector(%L::regconfig, content), websearch_to_tsquery(%L::regconfig, $2), 32)::float as text_rank,
+      ((1 - (embedding <=> $1)) * $5
+        + ts_rank_cd(to_tsvector(%L::regconfig, content), websearch_to_tsquery(%L::regconfig, $2), 32) * $6)::float as combined_score,
       created_at,
       updated_at
     FROM %I
     WHERE (1 - (embedding <=> $1)) > $3
-      OR to_tsvector(content) @@ plainto_tsquery($2)
+      OR to_tsvector(%L::regconfig, content) @@ websearch_to_tsquery(%L::regconfig, $2)
     ORDER BY combined_score DESC
     LIMIT $4
-  ', table_name)
-  USING query_embedding, search_text, match_threshold, match_count;
+  ', language, language, language, language, table_name, language, language)
+  USING query_embedding, search_text, match_threshold, match_count, vector_weight, text_weight;
 END;
 $$;
 
--- 9. Create RLS policies (optional - adjust based on your security requirements)
+-- 11. Create function for full-text search, used by hybridSearch()
+-- text_score is ts_rank_cd normalized to [0, 1). The language is inlined so
+-- the to_tsvector(language, content) index can be used.
+CREATE OR REPLACE FUNCTION match_documents_text(
+  search_text text,
+  match_count int DEFAULT 10,
+  table_name text DEFAULT 'documents',
+  language text DEFAULT 'english',
+  filters jsonb DEFAULT '{}',
+  metadata_filter jsonb DEFAULT '{}',
+  filter jsonb DEFAULT NULL -- compileFilter() output, see compile_filter
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  metadata jsonb,
+  text_score float,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  where_clause text := '';
+  filter_key text;
+  filter_value jsonb;
+BEGIN
+  FOR filter_key, filter_value IN SELECT * FROM jsonb_each(filters) LOOP
+    where_clause := where_clause || format(' AND %I = %L', filter_key, filter_value #>> '{}');
+  END LOOP;
+
+  IF filter IS NOT NULL THEN
+    where_clause := where_clause || ' AND ' || compile_filter(filter);
+  END IF;
+
+  RETURN QUERY
+  EXECUTE format('
+    SELECT
+      id,
+      content,
+      metadata,
+      ts_rank_cd(to_tsvector(%L::regconfig, content), websearch_to_tsquery(%L::regconfig, $1), 32)::float AS text_score,
+      created_at,
+      updated_at
+    FROM %I
+    WHERE to_tsvector(%L::regconfig, content) @@ websearch_to_tsquery(%L::regconfig, $1)
+      AND ($3 = ''{}'' OR metadata @> $3) %s
+    ORDER BY text_score DESC
+    LIMIT $2
+  ', language, language, table_name, language, language, where_clause)
+  USING search_text, match_count, metadata_filter;
+END;
+$$;
+
+-- 12. Index management used by ai.schema.createIndex()
+-- Identifiers go through %I and every parameter is cast to int. ivfflat
+-- without lists sizes them from the row count, so create it after loading data.
+CREATE OR REPLACE FUNCTION create_embedding_index(
+  table_name text,
+  method text DEFAULT 'hnsw',
+  metric text DEFAULT 'cosine',
+  params jsonb DEFAULT '{}',
+  replace_existing boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  index_name text := table_name || '_embedding_idx';
+  ops text := CASE metric
+    WHEN 'cosine' THEN 'cosine_ops'
+    WHEN 'inner_product' THEN 'ip_ops'
+    WHEN 'l2' THEN 'l2_ops'
+  END;
+  dimensions int;
+  target text;
+  settings text[] := '{}';
+  row_count bigint;
+BEGIN
+  IF method NOT IN ('hnsw', 'ivfflat') THEN
+    RAISE EXCEPTION 'Unknown index method: %', method;
+  END IF;
+  IF ops IS NULL THEN
+    RAISE EXCEPTION 'Unknown distance metric: %', metric;
+  END IF;
+
+  SELECT NULLIF(a.atttypmod, -1) INTO dimensions FROM pg_attribute a
+  WHERE a.attrelid = to_regclass(quote_ident(table_name)) AND a.attname = 'embedding' AND NOT a.attisdropped;
+  IF dimensions IS NULL THEN
+    RAISE EXCEPTION 'Column %.embedding must exist with fixed dimensions to be indexed', table_name;
+  END IF;
+
+  -- Same expression as embedding_distance_sql, so searches can use the index
+  target := CASE WHEN dimensions > 2000
+    THEN format('(embedding::halfvec(%s)) halfvec_%s', dimensions, ops)
+    ELSE 'embedding vector_' || ops END;
+
+  IF method = 'hnsw' THEN
+    IF params ? 'm' THEN
+      settings := settings || format('m = %s', (params->>'m')::int);
+    END IF;
+    IF params ? 'ef_construction' THEN
+      settings := settings || format('ef_construction = %s', (params->>'ef_construction')::int);
+    END IF;
+  ELSIF params ? 'lists' THEN
+    settings := settings || format('lists = %s', (params->>'lists')::int);
+  ELSE
+    -- pgvector's guidance: rows / 1000 up to 1M rows, sqrt(rows) above
+    EXECUTE format('SELECT count(*) FROM %I', table_name) INTO row_count;
+    settings := settings || format('lists = %s', GREATEST(1,
+      CASE WHEN row_count > 1000000 THEN floor(sqrt(row_count)) ELSE row_count / 1000 END)::int);
+  END IF;
+
+  IF replace_existing THEN
+    EXECUTE format('DROP INDEX IF EXISTS %I', index_name);
+  END IF;
+
+  EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I USING %s (%s)%s',
+    index_name, table_name, method, target,
+    CASE WHEN cardinality(settings) > 0 THEN ' WITH (' || array_to_string(settings, ', ') || ')' ELSE '' END);
+
+  RETURN (
+    SELECT jsonb_build_object('name', i.relname, 'method', am.amname, 'definition', pg_get_indexdef(i.oid))
+    FROM pg_class i JOIN pg_am am ON am.oid = i.relam
+    WHERE i.oid = to_regclass(quote_ident(index_name))
+  );
+END;
+$$;
+
+-- Runs DDL, so keep it to the service role
+REVOKE EXECUTE ON FUNCTION create_embedding_index FROM PUBLIC, anon, authenticated;
+
+-- 13. Setup inspection used by ai.verify()
+-- Reads the system catalogs only: the pgvector version, the table's embedding
+-- column, indexes and RLS state, and which of the given functions exist.
+CREATE OR REPLACE FUNCTION inspect_embeddings_table(
+  table_name text,
+  function_names text[] DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  WITH target AS (
+    SELECT to_regclass(quote_ident(table_name)) AS oid
+  )
+  SELECT jsonb_build_object(
+    'extension', (SELECT extversion FROM pg_extension WHERE extname = 'vector'),
+    'table_exists', (SELECT oid IS NOT NULL FROM target),
+    'rls_enabled', (SELECT relrowsecurity FROM pg_class WHERE oid = (SELECT oid FROM target)),
+    'policies', (SELECT count(*) FROM pg_policy WHERE polrelid = (SELECT oid FROM target)),
+    'embedding_type', (
+      SELECT t.typname FROM pg_attribute a JOIN pg_type t ON t.oid = a.atttypid
+      WHERE a.attrelid = (SELECT oid FROM target) AND a.attname = 'embedding' AND NOT a.attisdropped
+    ),
+    'embedding_dimensions', (
+      SELECT NULLIF(a.atttypmod, -1) FROM pg_attribute a
+      WHERE a.attrelid = (SELECT oid FROM target) AND a.attname = 'embedding' AND NOT a.attisdropped
+    ),
+    'indexes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', i.relname, 'method', am.amname, 'definition', pg_get_indexdef(i.oid)))
+      FROM pg_index x
+      JOIN pg_class i ON i.oid = x.indexrelid
+      JOIN pg_am am ON am.oid = i.relam
+      WHERE x.indrelid = (SELECT oid FROM target)
+    ), '[]'::jsonb),
+    'functions', COALESCE((
+      SELECT jsonb_agg(DISTINCT p.proname)
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      WHERE n.nspname = 'public' AND p.proname = ANY(function_names)
+    ), '[]'::jsonb)
+  );
+$$;
+
+-- 14. Optional: embedding cache used by SupabaseEmbeddingCache
+-- Keys combine model, dimensions, input type and a hash of the normalized text.
+CREATE TABLE IF NOT EXISTS embedding_cache (
+  key text PRIMARY KEY,
+  embedding vector NOT NULL, -- No fixed dimensions: entries may come from different models
+  created_at timestamptz DEFAULT now()
+);
+
+-- 15. Create RLS policies (optional - adjust based on your security requirements)
 -- ALTER TABLE documents ENABLE ROW LEVEL SECURITY;
 
 -- Example RLS policy for user-specific access
 -- CREATE POLICY "Users can only access their own documents" ON documents
 --   FOR ALL USING (auth.uid() = user_id);
 
--- 10. Grant necessary permissions
+-- 16. Grant necessary permissions
 -- GRANT USAGE ON SCHEMA public TO authenticated, anon;
 -- GRANT ALL ON documents TO authenticated, anon;
+-- GRANT ALL ON documents_sources TO authenticated, anon;
 -- GRANT EXECUTE ON FUNCTION match_documents TO authenticated, anon;
+-- GRANT EXECUTE ON FUNCTION match_documents_filtered TO authenticated, anon;
+-- GRANT EXECUTE ON FUNCTION match_documents_page TO authenticated, anon;
 -- GRANT EXECUTE ON FUNCTION match_documents_with_metadata TO authenticated, anon;
 -- GRANT EXECUTE ON FUNCTION hybrid_search TO authenticated, anon;
+-- GRANT EXECUTE ON FUNCTION match_documents_text TO authenticated, anon;
+-- GRANT EXECUTE ON FUNCTION inspect_embeddings_table TO authenticated;
+-- GRANT ALL ON embedding_cache TO authenticated, anon;
 
 -- Setup complete!
 -- You can now use @supavec/supabase-ai with your Supabase project.
\ No newline at end of file
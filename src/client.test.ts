@@ -1,8 +1,9 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { SupabaseAI } from "./client";
 import { ConfigurationError } from "./types/errors";
+import { providerRegistry } from "./embeddings/registry";
 import type { SupabaseClient } from "@supabase/supabase-js";
-import type { SupabaseAIOptions } from "./types";
+import type { EmbeddingProvider, SupabaseAIOptions } from "./types";
 
 // Mock the EmbeddingsClient to avoid external dependencies
 vi.mock("./embeddings", () => ({
@@ -175,6 +176,200 @@ describe("SupabaseAI", () => {
     });
   });
 
+  describe("provider registry", () => {
+    const customProvider: EmbeddingProvider = {
+      createEmbedding: vi.fn(),
+      getModel: () => "custom-model",
+      getDimensions: () => 384,
+    };
+
+    afterEach(() => {
+      providerRegistry.unregister("test-local");
+    });
+
+    it("should use a ready-made provider instance without an apiKey", () => {
+      const ai = new SupabaseAI(mockSupabaseClient, {
+        embeddingProvider: customProvider,
+      });
+
+      expect(ai.getEmbeddingProvider()).toBe(customProvider);
+      expect(ai.getProvider()).toBe("custom");
+      expect(ai.getModel()).toBe("custom-model");
+    });
+
+    it("should create providers from registered factories", () => {
+      const factory = vi.fn().mockReturnValue(customProvider);
+      providerRegistry.register("test-local", {
+        defaultModel: "local-model",
+        factory,
+      });
+
+      const ai = new SupabaseAI(mockSupabaseClient, {
+        embeddings: {
+          provider: "test-local",
+          providerOptions: { endpoint: "http://localhost" },
+        },
+      });
+
+      expect(factory).toHaveBeenCalledWith({
+        model: "local-model",
+        options: { endpoint: "http://localhost" },
+      });
+      expect(ai.getEmbeddingProvider()).toBe(customProvider);
+      expect(ai.getProvider()).toBe("test-local");
+    });
+
+    it("should require a model for providers without a default", () => {
+      const factory = vi.fn().mockReturnValue(customProvider);
+      providerRegistry.register("test-local", { factory });
+
+      expect(() => {
+        new SupabaseAI(mockSupabaseClient, {
+          embeddings: { provider: "test-local" },
+        });
+      }).toThrow('model is required for embedding provider "test-local"');
+      expect(factory).not.toHaveBeenCalled();
+    });
+
+    it("should require an apiKey only for providers that need one", () => {
+      providerRegistry.register("test-local", {
+        requiresApiKey: true,
+        defaultModel: "local-model",
+        factory: () => customProvider,
+      });
+
+      expect(() => {
+        new SupabaseAI(mockSupabaseClient, {
+          embeddings: { provider: "test-local" },
+        });
+      }).toThrow("API key is required");
+    });
+
+    it("should throw ConfigurationError for unknown providers", () => {
+      expect(() => {
+        new SupabaseAI(mockSupabaseClient, {
+          embeddings: { provider: "does-not-exist" },
+        });
+      }).toThrow(ConfigurationError);
+    });
+  });
+
+  describe("provider wrappers", () => {
+    it("should wrap the provider used for embeddings by default", async () => {
+      const { EmbeddingsClient } = await import("./embeddings");
+      const { RetryingEmbeddingProvider } = await import("./embeddings/retry");
+
+      const ai = new SupabaseAI(mockSupabaseClient, validOptions);
+      const config = vi.mocked(EmbeddingsClient).mock.calls.at(-1)![0];
+
+      expect(config.provider).toBeInstanceOf(RetryingEmbeddingProvider);
+      expect(ai.getEmbeddingProvider()).not.toBe(config.provider);
+    });
+
+    it("should use the provider directly when retry is disabled", async () => {
+      const { EmbeddingsClient } = await import("./embeddings");
+
+      const ai = new SupabaseAI(mockSupabaseClient, {
+        ...validOptions,
+        retry: false,
+      });
+      const config = vi.mocked(EmbeddingsClient).mock.calls.at(-1)![0];
+
+      expect(config.provider).toBe(ai.getEmbeddingProvider());
+    });
+
+    it("should pass the reranker to the embeddings client", async () => {
+      const { EmbeddingsClient } = await import("./embeddings");
+      const reranker = { rerank: vi.fn() };
+
+      new SupabaseAI(mockSupabaseClient, { ...validOptions, reranker });
+      const config = vi.mocked(EmbeddingsClient).mock.calls.at(-1)![0];
+
+      expect(config.reranker).toBe(reranker);
+    });
+
+    it("should pass lifecycle hooks to the embeddings client", async () => {
+      const { EmbeddingsClient } = await import("./embeddings");
+      const hooks = { afterSearch: vi.fn() };
+
+      new SupabaseAI(mockSupabaseClient, { ...validOptions, hooks });
+      const config = vi.mocked(EmbeddingsClient).mock.calls.at(-1)![0];
+
+      expect(config.hooks).toBe(hooks);
+    });
+
+    it("should pass pricing and the usage meter to the embeddings client", async () => {
+      const { EmbeddingsClient } = await import("./embeddings");
+      const pricing = { "text-embedding-3-small": 0.05 };
+      const usageMeter = vi.fn();
+
+      new SupabaseAI(mockSupabaseClient, {
+        ...validOptions,
+        pricing,
+        usageMeter,
+      });
+      const config = vi.mocked(EmbeddingsClient).mock.calls.at(-1)![0];
+
+      expect(config.pricing).toBe(pricing);
+      expect(config.usageMeter).toBe(usageMeter);
+    });
+
+    it("should pass the metric to the embeddings and schema clients", async () => {
+      const { EmbeddingsClient } = await import("./embeddings");
+
+      const ai = new SupabaseAI(mockSupabaseClient, {
+        ...validOptions,
+        embeddings: { metric: "inner_product" },
+      });
+      const config = vi.mocked(EmbeddingsClient).mock.calls.at(-1)![0];
+
+      expect(config.metric).toBe("inner_product");
+      expect(ai.schema.generate().sql).toContain("vector_ip_ops");
+    });
+
+    it("should reject unknown metrics", () => {
+      expect(() => {
+        new SupabaseAI(mockSupabaseClient, {
+          ...validOptions,
+          embeddings: { metric: "manhattan" as any },
+        });
+      }).toThrow('Unknown distance metric "manhattan"');
+    });
+
+    it("should generate schema for the configured table and dimensions", () => {
+      const ai = new SupabaseAI(mockSupabaseClient, {
+        ...validOptions,
+        embeddings: { table: "articles" },
+      });
+      const { sql } = ai.schema.generate();
+
+      expect(sql).toContain("CREATE TABLE IF NOT EXISTS articles (");
+      expect(sql).toContain(
+        `embedding vector(${ai.getEmbeddingProvider().getDimensions()})`
+      );
+    });
+
+    it("should report cache stats only when caching is enabled", () => {
+      const cached = new SupabaseAI(mockSupabaseClient, {
+        ...validOptions,
+        cache: true,
+      });
+      const uncached = new SupabaseAI(mockSupabaseClient, validOptions);
+
+      expect(cached.getCacheStats()).toEqual({ hits: 0, misses: 0 });
+      expect(uncached.getCacheStats()).toBeUndefined();
+    });
+
+    it("should reject invalid rate limits", () => {
+      expect(() => {
+        new SupabaseAI(mockSupabaseClient, {
+          ...validOptions,
+          rateLimit: { requestsPerMinute: -1 },
+        });
+      }).toThrow(ConfigurationError);
+    });
+  });
+
   describe("getModel", () => {
     it("should return default model when not specified", () => {
       const ai = new SupabaseAI(mockSupabaseClient, validOptions);
@@ -206,6 +401,7 @@ describe("SupabaseAI", () => {
         model: "text-embedding-3-small",
         table: "documents",
         threshold: 0.8,
+        metric: "cosine",
       });
     });
 
@@ -217,6 +413,7 @@ describe("SupabaseAI", () => {
           model: "text-embedding-3-large",
           table: "custom_docs",
           threshold: 0.9,
+          metric: "l2",
         },
       };
 
@@ -228,6 +425,7 @@ describe("SupabaseAI", () => {
         model: "text-embedding-3-large",
         table: "custom_docs",
         threshold: 0.9,
+        metric: "l2",
       });
     });
 
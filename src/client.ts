@@ -1,74 +1,185 @@
 import { SupabaseClient } from "@supabase/supabase-js";
 import type {
   SupabaseAIOptions,
+  CacheStats,
+  UsageReport,
   EmbeddingProvider,
-  EmbeddingsConfig,
+  EmbeddingProviderName,
+  ResolvedEmbeddingsConfig,
+  VerifyOptions,
+  VerifyReport,
 } from "./types";
 import { ConfigurationError } from "./types/errors";
 import { EmbeddingsClient } from "./embeddings";
-import { OpenAIProvider } from "./embeddings/providers";
+import { SchemaClient } from "./schema";
+import { METRICS } from "./schema/metrics";
+import { providerRegistry } from "./embeddings/registry";
+import { RetryingEmbeddingProvider } from "./embeddings/retry";
+import { RateLimiter } from "./embeddings/rate-limiter";
+import {
+  CachedEmbeddingProvider,
+  InMemoryEmbeddingCache,
+} from "./embeddings/cache";
 
-export class SupabaseAI {
+export class SupabaseAI<
+  P extends EmbeddingProviderName = EmbeddingProviderName
+> {
   public embeddings: EmbeddingsClient;
+  public schema: SchemaClient;
   private supabaseClient: SupabaseClient;
-  private options: SupabaseAIOptions;
-  private embeddingsConfig: Required<EmbeddingsConfig>;
+  private options: SupabaseAIOptions<P>;
+  private embeddingsConfig: ResolvedEmbeddingsConfig;
+  private provider: EmbeddingProvider;
+  private cachedProvider: CachedEmbeddingProvider | undefined;
 
-  constructor(supabaseClient: SupabaseClient, options: SupabaseAIOptions) {
+  constructor(supabaseClient: SupabaseClient, options: SupabaseAIOptions<P>) {
     this.supabaseClient = supabaseClient;
     this.options = options;
 
+    const customProvider = options.embeddingProvider;
+    const providerName =
+      options.embeddings?.provider ?? (customProvider ? "custom" : "openai");
+
     // Set up embeddings config with defaults
-    this.embeddingsConfig = {
-      provider: options.embeddings?.provider ?? "openai",
-      model: options.embeddings?.model ?? "text-embedding-3-small",
+    const config = {
+      provider: providerName,
       table: options.embeddings?.table ?? "documents",
       threshold: options.embeddings?.threshold ?? 0.8,
+      metric: options.embeddings?.metric ?? "cosine",
     };
 
-    this.validateOptions();
+    this.validateOptions(config);
+
+    this.provider = this.createProvider(providerName);
 
-    const provider = this.createProvider();
+    // Without an explicit model the provider's own (the registry's default
+    // for registered providers) is used; the registry rejects a missing one
+    this.embeddingsConfig = {
+      ...config,
+      model: options.embeddings?.model ?? this.provider.getModel(),
+    };
 
     this.embeddings = new EmbeddingsClient({
       supabaseClient,
-      provider,
+      provider: this.wrapProvider(this.provider),
       table: this.embeddingsConfig.table,
       threshold: this.embeddingsConfig.threshold,
+      metric: this.embeddingsConfig.metric,
+      ...(options.reranker && { reranker: options.reranker }),
+      ...(options.hooks && { hooks: options.hooks }),
+      ...(options.pricing && { pricing: options.pricing }),
+      ...(options.usageMeter && { usageMeter: options.usageMeter }),
+    });
+
+    this.schema = new SchemaClient({
+      supabaseClient,
+      provider: this.provider,
+      table: this.embeddingsConfig.table,
+      metric: this.embeddingsConfig.metric,
     });
   }
 
-  private validateOptions(): void {
-    if (!this.options.apiKey) {
-      throw new ConfigurationError("API key is required");
+  private validateOptions(
+    config: Omit<ResolvedEmbeddingsConfig, "model">
+  ): void {
+    // A ready-made provider instance bypasses the registry entirely
+    if (!this.options.embeddingProvider) {
+      const registration = providerRegistry.get(config.provider);
+
+      if (!registration) {
+        throw new ConfigurationError(
+          `Unknown embedding provider "${config.provider}"`
+        );
+      }
+
+      if (registration.requiresApiKey && !this.options.apiKey) {
+        throw new ConfigurationError("API key is required");
+      }
     }
 
     // Validate embeddings config values
-    if (
-      this.embeddingsConfig.threshold < 0 ||
-      this.embeddingsConfig.threshold > 1
-    ) {
+    if (config.threshold < 0 || config.threshold > 1) {
       throw new ConfigurationError("threshold must be between 0 and 1");
     }
 
-    if (!this.embeddingsConfig.table.trim()) {
+    if (!config.table.trim()) {
       throw new ConfigurationError("table cannot be empty");
     }
+
+    if (!(config.metric in METRICS)) {
+      throw new ConfigurationError(
+        `Unknown distance metric "${config.metric}"`
+      );
+    }
   }
 
-  private createProvider(): EmbeddingProvider {
-    return new OpenAIProvider(this.options.apiKey, this.embeddingsConfig.model);
+  private createProvider(providerName: string): EmbeddingProvider {
+    if (this.options.embeddingProvider) {
+      return this.options.embeddingProvider;
+    }
+
+    const model = this.options.embeddings?.model;
+    return providerRegistry.create(providerName, {
+      ...(this.options.apiKey && { apiKey: this.options.apiKey }),
+      ...(model != null && { model }),
+      options: this.options.embeddings?.providerOptions ?? {},
+    });
+  }
+
+  private wrapProvider(provider: EmbeddingProvider): EmbeddingProvider {
+    const { retry, rateLimit, cache } = this.options;
+    let wrapped = provider;
+
+    if (retry !== false || rateLimit) {
+      wrapped = new RetryingEmbeddingProvider(wrapped, {
+        ...(retry !== undefined && { retry }),
+        ...(rateLimit && { rateLimiter: new RateLimiter(rateLimit) }),
+      });
+    }
+
+    // The cache sits outermost so hits skip retries and rate limiting
+    if (cache) {
+      this.cachedProvider = new CachedEmbeddingProvider(
+        wrapped,
+        cache === true ? new InMemoryEmbeddingCache() : cache
+      );
+      wrapped = this.cachedProvider;
+    }
+
+    return wrapped;
+  }
+
+  // Shorthand for schema.verify()
+  verify(options?: VerifyOptions): Promise<VerifyReport> {
+    return this.schema.verify(options);
+  }
+
+  getCacheStats(): CacheStats | undefined {
+    return this.cachedProvider?.getStats();
+  }
+
+  // Tokens and estimated cost of every embedding request made so far
+  getUsage(): UsageReport {
+    return this.embeddings.getUsage();
+  }
+
+  resetUsage(): void {
+    this.embeddings.resetUsage();
   }
 
   getProvider(): string {
     return this.embeddingsConfig.provider;
   }
 
+  getEmbeddingProvider(): EmbeddingProvider {
+    return this.provider;
+  }
+
   getModel(): string {
     return this.embeddingsConfig.model;
   }
 
-  getEmbeddingsConfig(): Required<EmbeddingsConfig> {
+  getEmbeddingsConfig(): ResolvedEmbeddingsConfig {
     return { ...this.embeddingsConfig };
   }
 
@@ -1,6 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { EmbeddingsClient } from "./EmbeddingsClient";
-import { DatabaseError, ValidationError } from "../types/errors";
+import { hashContent } from "./hashing";
+import {
+  ConfigurationError,
+  DatabaseError,
+  EmbeddingProviderError,
+  RateLimitError,
+  StoreBatchError,
+  ValidationError,
+} from "../types/errors";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type {
   EmbeddingProvider,
@@ -15,6 +23,28 @@ vi.mock("./utils", () => ({
   cosineSimilarity: vi.fn().mockReturnValue(0.95),
 }));
 
+// Chainable, awaitable stand-in for a PostgREST query builder
+function mockQuery(result: any) {
+  const query: any = {
+    then: (resolve: any, reject: any) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  for (const method of [
+    "select",
+    "in",
+    "eq",
+    "gte",
+    "lte",
+    "contains",
+    "delete",
+    "update",
+  ]) {
+    query[method] = vi.fn().mockReturnValue(query);
+  }
+  query.maybeSingle = vi.fn().mockResolvedValue(result);
+  return query;
+}
+
 describe("EmbeddingsClient", () => {
   let mockSupabaseClient: SupabaseClient;
   let mockProvider: EmbeddingProvider;
@@ -37,10 +67,14 @@ describe("EmbeddingsClient", () => {
 
     // Mock embedding provider
     mockProvider = {
-      createEmbedding: vi.fn().mockResolvedValue([
-        [0.1, 0.2, 0.3],
-        [0.4, 0.5, 0.6],
-      ]),
+      // Returns one vector per input, alternating between two fixtures
+      createEmbedding: vi
+        .fn()
+        .mockImplementation(async (input: string | string[]) =>
+          (Array.isArray(input) ? input : [input]).map((_, i) =>
+            i % 2 === 0 ? [0.1, 0.2, 0.3] : [0.4, 0.5, 0.6]
+          )
+        ),
       getModel: vi.fn().mockReturnValue("text-embedding-3-small"),
       getDimensions: vi.fn().mockReturnValue(1536),
     };
@@ -89,10 +123,7 @@ describe("EmbeddingsClient", () => {
         "test text",
         undefined
       );
-      expect(result).toEqual([
-        [0.1, 0.2, 0.3],
-        [0.4, 0.5, 0.6],
-      ]);
+      expect(result).toEqual([[0.1, 0.2, 0.3]]);
     });
 
     it("should create embeddings for array of strings", async () => {
@@ -130,8 +161,8 @@ describe("EmbeddingsClient", () => {
       await client.store([langchainDoc]);
 
       expect(mockProvider.createEmbedding).toHaveBeenCalledWith(
-        "test content",
-        undefined
+        ["test content"],
+        { inputType: "document" }
       );
     });
 
@@ -143,8 +174,8 @@ describe("EmbeddingsClient", () => {
       await client.store([langchainDoc]);
 
       expect(mockProvider.createEmbedding).toHaveBeenCalledWith(
-        "test content",
-        undefined
+        ["test content"],
+        { inputType: "document" }
       );
     });
 
@@ -157,8 +188,8 @@ describe("EmbeddingsClient", () => {
       await client.store([storeData]);
 
       expect(mockProvider.createEmbedding).toHaveBeenCalledWith(
-        "test content",
-        undefined
+        ["test content"],
+        { inputType: "document" }
       );
     });
   });
@@ -172,7 +203,11 @@ describe("EmbeddingsClient", () => {
 
       await client.store(data);
 
-      expect(mockProvider.createEmbedding).toHaveBeenCalledTimes(2);
+      expect(mockProvider.createEmbedding).toHaveBeenCalledTimes(1);
+      expect(mockProvider.createEmbedding).toHaveBeenCalledWith(
+        ["test content 1", "test content 2"],
+        { inputType: "document" }
+      );
       expect(mockSupabaseClient.from).toHaveBeenCalledWith("test_documents");
     });
 
@@ -239,6 +274,15 @@ describe("EmbeddingsClient", () => {
       ]);
     });
 
+    it("should embed content with the document input type", async () => {
+      await client.store([{ content: "passage text" }]);
+
+      expect(mockProvider.createEmbedding).toHaveBeenCalledWith(
+        ["passage text"],
+        { inputType: "document" }
+      );
+    });
+
     it("should handle batch processing", async () => {
       const data: StoreData[] = Array.from({ length: 250 }, (_, i) => ({
         content: `test content ${i}`,
@@ -251,6 +295,103 @@ describe("EmbeddingsClient", () => {
       expect(mockSupabaseClient.from).toHaveBeenCalledTimes(3);
     });
 
+    it("should pack embedding requests by item count", async () => {
+      const data: StoreData[] = Array.from({ length: 5 }, (_, i) => ({
+        content: `content ${i}`,
+      }));
+
+      await client.store(data, { embeddingBatchSize: 2 });
+
+      expect(mockProvider.createEmbedding).toHaveBeenCalledTimes(3);
+      expect(mockProvider.createEmbedding).toHaveBeenNthCalledWith(
+        3,
+        ["content 4"],
+        { inputType: "document" }
+      );
+    });
+
+    it("should pack embedding requests by the provider's tokenizer", async () => {
+      mockProvider.tokenizer = {
+        count: (text) => text.length,
+        truncate: (text) => text,
+      };
+      const data: StoreData[] = [
+        { content: "a".repeat(40) },
+        { content: "b".repeat(40) },
+        { content: "c".repeat(40) },
+      ];
+
+      // 40 tokens per item; the length / 4 estimate would fit all three
+      await client.store(data, { maxBatchTokens: 80 });
+
+      expect(mockProvider.createEmbedding).toHaveBeenCalledTimes(2);
+    });
+
+    it("should use the provider's batch limits by default", async () => {
+      mockProvider.maxBatchSize = 1;
+      const data: StoreData[] = [{ content: "a" }, { content: "b" }];
+
+      await client.store(data);
+
+      expect(mockProvider.createEmbedding).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep embeddings in input order with concurrency", async () => {
+      mockProvider.createEmbedding = vi
+        .fn()
+        .mockImplementation(async (input: string[]) => {
+          // Resolve later batches first
+          const delay = input[0] === "first" ? 20 : 0;
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          return input.map((text) => [text === "first" ? 1 : 2]);
+        });
+
+      await client.store([{ content: "first" }, { content: "second" }], {
+        embeddingBatchSize: 1,
+        concurrency: 2,
+      });
+
+      const insertCall = (mockSupabaseClient.from as any).mock.results[0].value
+        .insert;
+      expect(insertCall).toHaveBeenCalledWith([
+        expect.objectContaining({ content: "first", embedding: [1] }),
+        expect.objectContaining({ content: "second", embedding: [2] }),
+      ]);
+    });
+
+    it("should throw when the provider returns the wrong number of embeddings", async () => {
+      mockProvider.createEmbedding = vi.fn().mockResolvedValue([[0.1]]);
+
+      await expect(
+        client.store([{ content: "a" }, { content: "b" }])
+      ).rejects.toThrow(EmbeddingProviderError);
+    });
+
+    it("should name the provider, not the model, in embedding count errors", async () => {
+      mockProvider.createEmbedding = vi.fn().mockResolvedValue([[0.1]]);
+
+      const unnamed = await client
+        .store([{ content: "a" }, { content: "b" }])
+        .catch((error) => error);
+      mockProvider.name = "local";
+      const named = await client
+        .store([{ content: "a" }, { content: "b" }])
+        .catch((error) => error);
+
+      expect(unnamed).toBeInstanceOf(EmbeddingProviderError);
+      expect(unnamed.provider).toBe("custom");
+      expect(named.provider).toBe("local");
+    });
+
+    it("should validate embeddingBatchSize and concurrency", async () => {
+      await expect(
+        client.store([{ content: "a" }], { embeddingBatchSize: 0 })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        client.store([{ content: "a" }], { concurrency: 0 })
+      ).rejects.toThrow(ValidationError);
+    });
+
     it("should handle additional fields in StoreData", async () => {
       const data: StoreData[] = [
         {
@@ -296,238 +437,1802 @@ describe("EmbeddingsClient", () => {
       await client.store(data);
 
       expect(mockProvider.createEmbedding).toHaveBeenCalledWith(
-        "langchain content",
-        undefined
-      );
-      expect(mockProvider.createEmbedding).toHaveBeenCalledWith(
-        "native content",
-        undefined
+        ["langchain content", "native content"],
+        { inputType: "document" }
       );
     });
   });
 
-  describe("search", () => {
-    it("should search with default parameters", async () => {
-      const results = await client.search("test query");
+  describe("input token limit", () => {
+    const tokenizer = {
+      count: (text: string) => text.split(" ").length,
+      truncate: (text: string, maxTokens: number) =>
+        text.split(" ").slice(0, maxTokens).join(" "),
+    };
 
-      expect(mockProvider.createEmbedding).toHaveBeenCalledWith(
-        "test query",
-        undefined
-      );
-      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith("match_documents", {
-        query_embedding: [0.1, 0.2, 0.3],
-        match_threshold: 0.8,
-        match_count: 10,
-        table_name: "test_documents",
-      });
-      expect(results).toEqual([
-        { id: "1", content: "test content", metadata: {}, similarity: 0.9 },
-      ]);
+    beforeEach(() => {
+      mockProvider.maxInputTokens = 3;
+      mockProvider.tokenizer = tokenizer;
     });
 
-    it("should search with custom parameters", async () => {
-      const options = {
-        table: "custom_table",
-        threshold: 0.9,
-        limit: 5,
-        rpc: "custom_match",
-      };
-
-      await client.search("test query", options);
+    it("should reject an item over the limit and name it", async () => {
+      const data: StoreData[] = [
+        { content: "short one" },
+        { id: "long-doc", content: "this one is too long" },
+      ];
 
-      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith("custom_match", {
-        query_embedding: [0.1, 0.2, 0.3],
-        match_threshold: 0.9,
-        match_count: 5,
-        table_name: "custom_table",
-      });
+      await expect(client.store(data)).rejects.toThrow(ValidationError);
+      await expect(client.store(data)).rejects.toThrow(
+        'Item 1 (id "long-doc") is 5 tokens, over the 3-token input limit of text-embedding-3-small'
+      );
+      expect(mockProvider.createEmbedding).not.toHaveBeenCalled();
     });
 
-    it("should include filters and metadata in RPC call", async () => {
-      const options = {
-        filters: { user_id: "user123" },
-        metadata: { category: "tech" },
-      };
-
-      await client.search("test query", options);
+    it("should truncate items when requested", async () => {
+      await client.store([{ content: "this one is too long" }], {
+        truncate: true,
+      });
 
-      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
-        "match_documents",
-        expect.objectContaining({
-          filters: { user_id: "user123" },
-          metadata_filter: { category: "tech" },
-        })
+      expect(mockProvider.createEmbedding).toHaveBeenCalledWith(
+        ["this one is"],
+        { inputType: "document" }
       );
+      const insertMock = (mockSupabaseClient.from as any).mock.results[0].value
+        .insert;
+      expect(insertMock.mock.calls[0][0][0].content).toBe("this one is");
     });
 
-    it("should handle select option", async () => {
-      const options = { select: "id, content, metadata" };
-      const mockData = [
-        {
-          id: "1",
-          content: "test",
-          metadata: {},
-          similarity: 0.9,
-          extra: "field",
-        },
-      ];
-
-      mockSupabaseClient.rpc = vi
-        .fn()
-        .mockResolvedValue({ data: mockData, error: null });
-
-      const results = await client.search("test query", options);
-
-      expect(results).toEqual([{ id: "1", content: "test", metadata: {} }]);
+    it("should let maxInputTokens override the provider limit", async () => {
+      await expect(
+        client.store([{ content: "one two" }], { maxInputTokens: 1 })
+      ).rejects.toThrow("Item 0 is 2 tokens");
     });
 
-    it("should handle orderBy option", async () => {
-      const options = { orderBy: "created_at" as const };
-      const mockData = [
-        { id: "2", created_at: "2023-02-01" },
-        { id: "1", created_at: "2023-01-01" },
-      ];
-
-      mockSupabaseClient.rpc = vi
-        .fn()
-        .mockResolvedValue({ data: mockData, error: null });
+    it("should skip the check when the provider has no limit", async () => {
+      delete mockProvider.maxInputTokens;
 
-      const results = await client.search("test query", options);
+      await client.store([{ content: "this one is too long" }]);
 
-      expect(results[0].id).toBe("1");
-      expect(results[1].id).toBe("2");
+      expect(mockProvider.createEmbedding).toHaveBeenCalledTimes(1);
     });
 
-    it("should handle includeDistance option", async () => {
-      const options = { includeDistance: true };
-      const mockData = [{ id: "1", content: "test" }];
-
-      mockSupabaseClient.rpc = vi
-        .fn()
-        .mockResolvedValue({ data: mockData, error: null });
-
-      const results = await client.search("test query", options);
+    it("should fall back to the model's tokenizer", async () => {
+      delete mockProvider.tokenizer;
+      const tokenizer = client.getTokenizer();
+      await tokenizer.load?.();
 
-      expect(results).toEqual([{ id: "1", content: "test", similarity: 0 }]);
+      expect(tokenizer.count("hello world")).toBe(2);
     });
+  });
 
-    it("should throw ValidationError when no table is provided and defaultTable is empty", async () => {
-      const clientWithoutTable = new EmbeddingsClient({
-        supabaseClient: mockSupabaseClient,
-        provider: mockProvider,
-        table: "", // Empty string should trigger validation error
+  describe("upsert and deduplication", () => {
+    // Table mock whose lookups filter `rows` by the requested column
+    function mockTable(rows: any[]) {
+      const builder: any = {
+        insert: vi.fn().mockResolvedValue({ error: null }),
+        upsert: vi.fn().mockResolvedValue({ error: null }),
+        select: vi.fn().mockReturnThis(),
+        in: vi.fn().mockImplementation(async (column, values) => ({
+          data: rows.filter((row) => values.includes(row[column])),
+          error: null,
+        })),
+      };
+      mockSupabaseClient.from = vi.fn().mockReturnValue(builder);
+      return builder;
+    }
+
+    it("should return a summary of inserted rows", async () => {
+      mockTable([]);
+
+      const result = await client.store([{ content: "a" }, { content: "b" }]);
+
+      expect(result).toEqual({
+        inserted: 2,
+        updated: 0,
+        skipped: 0,
+        batches: [{ items: [0, 1], ids: [] }],
+        failed: [],
+        usage: expect.objectContaining({ tokens: 2, estimatedTokens: 2 }),
       });
-
-      await expect(clientWithoutTable.search("test query")).rejects.toThrow(
-        ValidationError
-      );
-      await expect(clientWithoutTable.search("test query")).rejects.toThrow(
-        "Table name is required"
-      );
     });
 
-    it("should throw DatabaseError when RPC fails", async () => {
-      const mockError = { message: "RPC function not found" };
-      mockSupabaseClient.rpc = vi
-        .fn()
-        .mockResolvedValue({ data: null, error: mockError });
+    it("should upsert on the chosen conflict key", async () => {
+      const table = mockTable([{ url: "https://a" }]);
 
-      await expect(client.search("test query")).rejects.toThrow(DatabaseError);
-      await expect(client.search("test query")).rejects.toThrow(
-        "Search failed"
+      const result = await client.store(
+        [
+          { content: "a", url: "https://a" },
+          { content: "b", url: "https://b" },
+        ],
+        { upsert: true, onConflict: "url" }
       );
-    });
-
-    it("should handle RPC throwing error", async () => {
-      mockSupabaseClient.rpc = vi
-        .fn()
-        .mockRejectedValue(new Error("Network error"));
 
-      await expect(client.search("test query")).rejects.toThrow(DatabaseError);
-      await expect(client.search("test query")).rejects.toThrow(
-        "Search operation failed"
+      expect(table.in).toHaveBeenCalledWith("url", ["https://a", "https://b"]);
+      expect(table.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ url: "https://a" }),
+          expect.objectContaining({ url: "https://b" }),
+        ],
+        { onConflict: "url" }
       );
+      expect(table.insert).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ inserted: 1, updated: 1, skipped: 0 });
     });
 
-    it("should handle null data from RPC", async () => {
-      mockSupabaseClient.rpc = vi
-        .fn()
-        .mockResolvedValue({ data: null, error: null });
+    it("should write the content hash column", async () => {
+      const table = mockTable([]);
 
-      const results = await client.search("test query");
+      await client.store([{ content: "hello world" }], {
+        hashColumn: "content_hash",
+      });
 
-      expect(results).toEqual([]);
+      expect(table.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          content_hash: await hashContent("hello world"),
+        }),
+      ]);
     });
-  });
 
-  describe("similarity", () => {
-    it("should calculate similarity between two strings", async () => {
-      const { cosineSimilarity } = await import("./utils");
+    it("should skip stored content before embedding it", async () => {
+      mockTable([{ content_hash: await hashContent("already stored") }]);
 
-      const result = await client.similarity("text1", "text2");
+      const result = await client.store(
+        [
+          { content: "already stored" },
+          { content: "new content" },
+          { content: "new   content" },
+        ],
+        { hashColumn: "content_hash" }
+      );
 
+      expect(mockProvider.createEmbedding).toHaveBeenCalledTimes(1);
       expect(mockProvider.createEmbedding).toHaveBeenCalledWith(
-        ["text1", "text2"],
-        undefined
-      );
-      expect(cosineSimilarity).toHaveBeenCalledWith(
-        [0.1, 0.2, 0.3],
-        [0.4, 0.5, 0.6]
+        ["new content"],
+        { inputType: "document" }
       );
-      expect(result).toBe(0.95);
+      expect(result).toMatchObject({ inserted: 1, updated: 0, skipped: 2 });
     });
-  });
-
-  describe("cosineSimilarity", () => {
-    it("should calculate cosine similarity between two vectors", async () => {
-      const { cosineSimilarity } = await import("./utils");
 
-      const vector1 = [0.1, 0.2, 0.3];
-      const vector2 = [0.4, 0.5, 0.6];
+    it("should only re-embed upserted rows whose content changed", async () => {
+      const table = mockTable([
+        { id: "1", content_hash: await hashContent("unchanged") },
+        { id: "2", content_hash: await hashContent("old text") },
+      ]);
 
-      const result = await client.cosineSimilarity(vector1, vector2);
+      const result = await client.store(
+        [
+          { id: "1", content: "unchanged" },
+          { id: "2", content: "new text" },
+          { id: "3", content: "unchanged" },
+        ],
+        { upsert: true, hashColumn: "content_hash" }
+      );
 
-      expect(cosineSimilarity).toHaveBeenCalledWith(vector1, vector2);
-      expect(result).toBe(0.95);
+      expect(mockProvider.createEmbedding).toHaveBeenCalledWith(
+        ["new text", "unchanged"],
+        { inputType: "document" }
+      );
+      expect(table.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ id: "2" }),
+          expect.objectContaining({ id: "3" }),
+        ],
+        { onConflict: "id" }
+      );
+      expect(result).toMatchObject({ inserted: 1, updated: 1, skipped: 1 });
     });
-  });
 
-  describe("edge cases and error handling", () => {
-    it("should handle empty data array in store", async () => {
-      await client.store([]);
+    it("should not write anything when every item is unchanged", async () => {
+      const table = mockTable([{ content_hash: await hashContent("same") }]);
+
+      const result = await client.store([{ content: "same" }], {
+        hashColumn: "content_hash",
+      });
 
       expect(mockProvider.createEmbedding).not.toHaveBeenCalled();
-      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+      expect(table.insert).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ inserted: 0, updated: 0, skipped: 1 });
     });
 
-    it("should handle empty metadata in store", async () => {
-      const data: StoreData[] = [{ content: "test" }];
-
-      await client.store(data);
+    it("should throw DatabaseError when the lookup fails", async () => {
+      const table = mockTable([]);
+      table.in.mockResolvedValue({ data: null, error: { message: "boom" } });
 
-      const insertCall = (mockSupabaseClient.from as any).mock.results[0].value
-        .insert;
-      expect(insertCall).toHaveBeenCalledWith([
-        expect.objectContaining({
-          metadata: {},
-        }),
-      ]);
+      await expect(
+        client.store([{ content: "a" }], { hashColumn: "content_hash" })
+      ).rejects.toThrow(DatabaseError);
     });
+  });
 
-    it("should handle provider errors gracefully", async () => {
-      mockProvider.createEmbedding = vi
-        .fn()
-        .mockRejectedValue(new Error("Provider error"));
+  describe("get, delete and update", () => {
+    describe("get", () => {
+      it("should fetch rows by id from the default table", async () => {
+        const rows = [{ id: "1", content: "a" }];
+        const query = mockQuery({ data: rows, error: null });
+        mockSupabaseClient.from = vi.fn().mockReturnValue(query);
 
-      const data: StoreData[] = [{ content: "test" }];
+        const result = await client.get(["1", "2"]);
 
-      await expect(client.store(data)).rejects.toThrow("Provider error");
-    });
+        expect(mockSupabaseClient.from).toHaveBeenCalledWith("test_documents");
+        expect(query.select).toHaveBeenCalledWith("*");
+        expect(query.in).toHaveBeenCalledWith("id", ["1", "2"]);
+        expect(result).toEqual(rows);
+      });
+
+      it("should apply select, filters and metadata", async () => {
+        const query = mockQuery({ data: [], error: null });
+        mockSupabaseClient.from = vi.fn().mockReturnValue(query);
+
+        await client.get("1", {
+          table: "other",
+          select: "id, content",
+          filters: { user_id: "user123" },
+          metadata: { category: "tech" },
+        });
+
+        expect(mockSupabaseClient.from).toHaveBeenCalledWith("other");
+        expect(query.select).toHaveBeenCalledWith("id, content");
+        expect(query.in).toHaveBeenCalledWith("id", ["1"]);
+        expect(query.eq).toHaveBeenCalledWith("user_id", "user123");
+        expect(query.contains).toHaveBeenCalledWith("metadata", {
+          category: "tech",
+        });
+      });
+
+      it("should throw DatabaseError on failure", async () => {
+        mockSupabaseClient.from = vi
+          .fn()
+          .mockReturnValue(
+            mockQuery({ data: null, error: { message: "denied" } })
+          );
+
+        await expect(client.get("1")).rejects.toThrow(DatabaseError);
+      });
+    });
+
+    describe("delete", () => {
+      it("should delete rows by id and report the count", async () => {
+        const query = mockQuery({ error: null, count: 2 });
+        mockSupabaseClient.from = vi.fn().mockReturnValue(query);
+
+        const result = await client.delete({ ids: ["1", "2"] });
+
+        expect(query.delete).toHaveBeenCalledWith({ count: "exact" });
+        expect(query.in).toHaveBeenCalledWith("id", ["1", "2"]);
+        expect(result).toEqual({ deleted: 2 });
+      });
+
+      it("should delete rows by filters", async () => {
+        const query = mockQuery({ error: null, count: 5 });
+        mockSupabaseClient.from = vi.fn().mockReturnValue(query);
+
+        await client.delete({
+          filters: { user_id: "user123" },
+          metadata: { source: "crawl" },
+        });
+
+        expect(query.in).not.toHaveBeenCalled();
+        expect(query.eq).toHaveBeenCalledWith("user_id", "user123");
+        expect(query.contains).toHaveBeenCalledWith("metadata", {
+          source: "crawl",
+        });
+      });
+
+      it("should refuse to delete without a condition", async () => {
+        await expect(client.delete({})).rejects.toThrow(ValidationError);
+        await expect(client.delete({ filters: {} })).rejects.toThrow(
+          ValidationError
+        );
+      });
+
+      it("should throw DatabaseError on failure", async () => {
+        mockSupabaseClient.from = vi
+          .fn()
+          .mockReturnValue(mockQuery({ error: { message: "denied" } }));
+
+        await expect(client.delete({ ids: ["1"] })).rejects.toThrow(
+          DatabaseError
+        );
+      });
+    });
+
+    describe("update", () => {
+      it("should update fields without re-embedding", async () => {
+        const query = mockQuery({ data: [{ id: "1" }], error: null });
+        mockSupabaseClient.from = vi.fn().mockReturnValue(query);
+
+        const result = await client.update("1", {
+          metadata: { reviewed: true },
+        });
+
+        expect(mockProvider.createEmbedding).not.toHaveBeenCalled();
+        expect(query.update).toHaveBeenCalledWith({
+          metadata: { reviewed: true },
+        });
+        expect(query.eq).toHaveBeenCalledWith("id", "1");
+        expect(result).toEqual({ id: "1" });
+      });
+
+      it("should re-embed when the content changes", async () => {
+        const lookup = mockQuery({ data: { content: "old" }, error: null });
+        const write = mockQuery({ data: [{ id: "1" }], error: null });
+        mockSupabaseClient.from = vi
+          .fn()
+          .mockReturnValueOnce(lookup)
+          .mockReturnValueOnce(write);
+
+        await client.update(
+          "1",
+          { content: "new" },
+          { hashColumn: "content_hash" }
+        );
+
+        expect(mockProvider.createEmbedding).toHaveBeenCalledWith("new", {
+          inputType: "document",
+        });
+        expect(write.update).toHaveBeenCalledWith({
+          content: "new",
+          embedding: [0.1, 0.2, 0.3],
+          content_hash: await hashContent("new"),
+        });
+      });
+
+      it("should not re-embed when the content is unchanged", async () => {
+        const lookup = mockQuery({ data: { content: "same" }, error: null });
+        const write = mockQuery({ data: [{ id: "1" }], error: null });
+        mockSupabaseClient.from = vi
+          .fn()
+          .mockReturnValueOnce(lookup)
+          .mockReturnValueOnce(write);
+
+        await client.update("1", { content: "same" });
+
+        expect(mockProvider.createEmbedding).not.toHaveBeenCalled();
+        expect(write.update).toHaveBeenCalledWith({ content: "same" });
+      });
+
+      it("should return null when the row does not exist", async () => {
+        mockSupabaseClient.from = vi
+          .fn()
+          .mockReturnValue(mockQuery({ data: null, error: null }));
+
+        expect(await client.update("missing", { content: "x" })).toBeNull();
+        expect(mockProvider.createEmbedding).not.toHaveBeenCalled();
+      });
+
+      it("should throw DatabaseError on failure", async () => {
+        mockSupabaseClient.from = vi
+          .fn()
+          .mockReturnValue(mockQuery({ data: null, error: { message: "x" } }));
+
+        await expect(client.update("1", { metadata: {} })).rejects.toThrow(
+          DatabaseError
+        );
+      });
+    });
+  });
+
+  describe("storeStream", () => {
+    async function* generate(count: number) {
+      for (let i = 0; i < count; i++) {
+        yield { content: `item ${i}` };
+      }
+    }
+
+    it("should store the source in batches and report progress", async () => {
+      const onProgress = vi.fn();
+
+      const result = await client.storeStream(generate(5), {
+        batchSize: 2,
+        onProgress,
+      });
+
+      expect(result).toMatchObject({ inserted: 5, updated: 0, skipped: 0 });
+      expect(mockProvider.createEmbedding).toHaveBeenCalledTimes(3);
+      expect(mockProvider.createEmbedding).toHaveBeenLastCalledWith(
+        ["item 4"],
+        { inputType: "document" }
+      );
+      expect(onProgress.mock.calls.map(([p]) => p.processed)).toEqual([
+        2, 4, 5,
+      ]);
+      expect(onProgress).toHaveBeenLastCalledWith({
+        processed: 5,
+        embedded: 5,
+        inserted: 5,
+        updated: 0,
+        skipped: 0,
+        failed: 0,
+      });
+    });
+
+    it("should not read ahead of the batch being written", async () => {
+      const pulled: number[] = [];
+      async function* source() {
+        for (let i = 0; i < 4; i++) {
+          pulled.push(i);
+          yield { content: `item ${i}` };
+        }
+      }
+
+      await client.storeStream(source(), {
+        batchSize: 2,
+        onProgress: ({ processed }) => {
+          expect(pulled).toHaveLength(processed);
+        },
+      });
+    });
+
+    it("should report the failed batch and rethrow", async () => {
+      vi.mocked(mockSupabaseClient.from).mockReturnValueOnce({
+        insert: vi.fn().mockResolvedValue({ error: null }),
+      } as any);
+      vi.mocked(mockSupabaseClient.from).mockReturnValueOnce({
+        insert: vi.fn().mockResolvedValue({ error: { message: "boom" } }),
+      } as any);
+      const onProgress = vi.fn();
+
+      await expect(
+        client.storeStream(generate(4), { batchSize: 2, onProgress })
+      ).rejects.toThrow(DatabaseError);
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          processed: 4,
+          embedded: 4,
+          inserted: 2,
+          failed: 2,
+        })
+      );
+    });
+
+    it("should not count a batch whose embedding failed as embedded", async () => {
+      vi.mocked(mockProvider.createEmbedding)
+        .mockResolvedValueOnce([[0.1], [0.2]])
+        .mockRejectedValueOnce(new RateLimitError("slow down", "openai"));
+      const onProgress = vi.fn();
+
+      await expect(
+        client.storeStream(generate(4), { batchSize: 2, onProgress })
+      ).rejects.toThrow(RateLimitError);
+      expect(onProgress).toHaveBeenLastCalledWith({
+        processed: 4,
+        embedded: 2,
+        inserted: 2,
+        updated: 0,
+        skipped: 0,
+        failed: 2,
+      });
+    });
+  });
+
+  describe("lifecycle hooks", () => {
+    function hookedClient() {
+      const events: [string, any][] = [];
+      const record = (name: string) => (event: any) =>
+        events.push([name, event]);
+      const hooked = new EmbeddingsClient({
+        ...defaultConfig,
+        hooks: {
+          beforeEmbed: record("beforeEmbed"),
+          afterEmbed: record("afterEmbed"),
+          beforeSearch: record("beforeSearch"),
+          afterSearch: record("afterSearch"),
+          beforeStore: record("beforeStore"),
+          afterStore: record("afterStore"),
+          onError: record("onError"),
+        },
+      });
+      return { hooked, events };
+    }
+
+    it("should report a search with its embedding and timings", async () => {
+      const { hooked, events } = hookedClient();
+
+      await hooked.search("query", { limit: 3 });
+
+      expect(events.map(([name]) => name)).toEqual([
+        "beforeSearch",
+        "beforeEmbed",
+        "afterEmbed",
+        "afterSearch",
+      ]);
+      const search = events[3][1];
+      expect(search).toMatchObject({
+        operation: "search",
+        table: "test_documents",
+        query: "query",
+        limit: 3,
+        results: 1,
+        durationMs: expect.any(Number),
+        timings: {
+          embedMs: expect.any(Number),
+          rpcMs: expect.any(Number),
+          postProcessMs: expect.any(Number),
+        },
+      });
+      expect(events[2][1]).toMatchObject({
+        operation: "search",
+        parentId: search.id,
+        model: "text-embedding-3-small",
+        inputs: 1,
+        inputType: "query",
+        tokens: 2,
+      });
+    });
+
+    it("should report stored item counts", async () => {
+      const { hooked, events } = hookedClient();
+
+      await hooked.store([{ content: "a" }, { content: "b" }]);
+
+      const [, afterStore] = events.find(([name]) => name === "afterStore")!;
+      expect(afterStore).toMatchObject({
+        table: "test_documents",
+        items: 2,
+        inserted: 2,
+        updated: 0,
+        skipped: 0,
+        failed: 0,
+      });
+      expect(events.find(([name]) => name === "afterEmbed")![1]).toMatchObject({
+        parentId: afterStore.id,
+        inputs: 2,
+        inputType: "document",
+      });
+    });
+
+    it("should end failed calls with onError", async () => {
+      const { hooked, events } = hookedClient();
+      vi.mocked(mockProvider.createEmbedding).mockRejectedValueOnce(
+        new Error("down")
+      );
+
+      await expect(hooked.search("query")).rejects.toThrow("down");
+
+      expect(events.map(([name, event]) => [name, event.stage])).toEqual([
+        ["beforeSearch", undefined],
+        ["beforeEmbed", undefined],
+        ["onError", "embed"],
+        ["onError", "search"],
+      ]);
+      expect(events[3][1].error.message).toBe("down");
+    });
+
+    it("should ignore errors thrown by hooks", async () => {
+      const afterSearch = vi.fn();
+      const hooked = new EmbeddingsClient({
+        ...defaultConfig,
+        hooks: [
+          {
+            beforeSearch: () => {
+              throw new Error("observer bug");
+            },
+          },
+          { afterSearch },
+        ],
+      });
+
+      await expect(hooked.search("query")).resolves.toHaveLength(1);
+      expect(afterSearch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("usage accounting", () => {
+    function meteredClient() {
+      const meter = vi.fn();
+      mockProvider.createEmbeddingWithUsage = vi
+        .fn()
+        .mockImplementation(async (input: string | string[]) => ({
+          embeddings: [input].flat().map(() => [0.1, 0.2, 0.3]),
+          usage: { tokens: [input].flat().length * 100 },
+        }));
+      const metered = new EmbeddingsClient({
+        ...defaultConfig,
+        pricing: { "text-embedding-3-small": 10 },
+        usageMeter: meter,
+      });
+      return { metered, meter };
+    }
+
+    it("should meter each call with its tags", async () => {
+      const { metered, meter } = meteredClient();
+
+      await metered.search("query", { usageTags: { tenant: "acme" } });
+
+      expect(meter).toHaveBeenCalledWith({
+        operation: "search",
+        table: "test_documents",
+        tags: { tenant: "acme" },
+        tokens: 100,
+        estimatedTokens: 0,
+        cost: 0.001,
+        byModel: {
+          "text-embedding-3-small": {
+            tokens: 100,
+            estimatedTokens: 0,
+            cost: 0.001,
+          },
+        },
+      });
+    });
+
+    it("should add usage to the store result and the client totals", async () => {
+      const { metered } = meteredClient();
+
+      const result = await metered.store([{ content: "a" }, { content: "b" }]);
+      await metered.create("text");
+
+      expect(result.usage).toMatchObject({ tokens: 200 });
+      expect(metered.getUsage()).toMatchObject({ tokens: 300 });
+
+      metered.resetUsage();
+      expect(metered.getUsage().tokens).toBe(0);
+    });
+
+    it("should report the usage of a partially failed store", async () => {
+      const { metered, meter } = meteredClient();
+      mockSupabaseClient.from = vi.fn().mockReturnValue({
+        insert: vi.fn().mockResolvedValue({ error: { message: "timeout" } }),
+      });
+
+      const error = await metered
+        .store([{ content: "a" }])
+        .catch((e: StoreBatchError) => e);
+
+      expect(error.result.usage).toMatchObject({ tokens: 100 });
+      expect(meter).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: "store", tokens: 100 })
+      );
+    });
+
+    it("should estimate tokens for providers that report none", async () => {
+      const meter = vi.fn();
+      const metered = new EmbeddingsClient({
+        ...defaultConfig,
+        usageMeter: meter,
+      });
+
+      await metered.create("12345678");
+
+      expect(meter).toHaveBeenCalledWith(
+        expect.objectContaining({ tokens: 2, estimatedTokens: 2 })
+      );
+    });
+  });
+
+  describe("batch failures", () => {
+    const items = [
+      { id: "a", content: "one" },
+      { id: "b", content: "two" },
+      { id: "c", content: "three" },
+    ];
+
+    function mockInserts(...errors: (string | null)[]) {
+      const insert = vi.fn();
+      for (const message of errors) {
+        insert.mockResolvedValueOnce({ error: message && { message } });
+      }
+      insert.mockResolvedValue({ error: null });
+      mockSupabaseClient.from = vi.fn().mockReturnValue({ insert });
+      return insert;
+    }
+
+    it("should throw the partial result with a checkpoint", async () => {
+      mockInserts(null, "timeout");
+
+      const error = await client.store(items, { batchSize: 2 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(StoreBatchError);
+      expect(error).toBeInstanceOf(DatabaseError);
+      expect(error.message).toContain("Failed to store embeddings: timeout");
+      expect(error.result).toMatchObject({
+        inserted: 2,
+        batches: [
+          { items: [0, 1], ids: ["a", "b"] },
+          { items: [2], ids: ["c"], error: "timeout" },
+        ],
+        failed: [{ index: 2, id: "c", reason: "timeout" }],
+        checkpoint: {
+          total: 3,
+          completed: [0, 1],
+          embeddings: { 2: [0.1, 0.2, 0.3] },
+        },
+      });
+    });
+
+    it("should stop at the first failed batch", async () => {
+      const insert = mockInserts("timeout");
+
+      const error = await client.store(items, { batchSize: 2 }).catch((e) => e);
+
+      expect(insert).toHaveBeenCalledTimes(1);
+      expect(error.result.checkpoint.completed).toEqual([]);
+      expect(Object.keys(error.result.checkpoint.embeddings)).toEqual([
+        "0",
+        "1",
+        "2",
+      ]);
+    });
+
+    it("should keep going with continueOnError", async () => {
+      const insert = mockInserts("timeout");
+
+      const result = await client.store(items, {
+        batchSize: 2,
+        continueOnError: true,
+      });
+
+      expect(insert).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({
+        inserted: 1,
+        failed: [
+          { index: 0, id: "a", reason: "timeout" },
+          { index: 1, id: "b", reason: "timeout" },
+        ],
+        checkpoint: { completed: [2] },
+      });
+    });
+
+    it("should resume from a checkpoint without re-embedding", async () => {
+      const checkpoint = {
+        total: 3,
+        completed: [0, 1],
+        embeddings: { 2: [0.7, 0.8, 0.9] },
+      };
+      const insert = mockInserts();
+
+      const result = await client.store(items, { checkpoint });
+
+      expect(mockProvider.createEmbedding).not.toHaveBeenCalled();
+      expect(insert).toHaveBeenCalledWith([
+        expect.objectContaining({ id: "c", embedding: [0.7, 0.8, 0.9] }),
+      ]);
+      expect(result).toEqual({
+        inserted: 1,
+        updated: 0,
+        skipped: 0,
+        batches: [{ items: [2], ids: ["c"] }],
+        failed: [],
+        usage: { tokens: 0, estimatedTokens: 0, cost: 0, byModel: {} },
+      });
+    });
+
+    it("should reject a checkpoint for different data", async () => {
+      await expect(
+        client.store(items.slice(0, 2), {
+          checkpoint: { total: 3, completed: [], embeddings: {} },
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("ingest", () => {
+    it("should split documents and store chunks with positional metadata", async () => {
+      const content = "First paragraph here.\n\nSecond paragraph here.";
+
+      const result = await client.ingest(
+        [{ id: "doc-1", content, metadata: { lang: "en" }, user_id: "u1" }],
+        { splitter: { type: "recursive", chunkSize: 25, chunkOverlap: 0 } }
+      );
+
+      const insertMock = (mockSupabaseClient.from as any).mock.results[0].value
+        .insert;
+      const rows = insertMock.mock.calls[0][0];
+
+      expect(result).toMatchObject({
+        documents: 1,
+        chunks: 2,
+        sourceIds: ["doc-1"],
+        inserted: 2,
+        updated: 0,
+        skipped: 0,
+      });
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).not.toHaveProperty("id");
+      expect(rows[1]).toMatchObject({
+        content: "Second paragraph here.",
+        user_id: "u1",
+        metadata: {
+          lang: "en",
+          source_id: "doc-1",
+          chunk_index: 1,
+          start_offset: 23,
+          end_offset: 45,
+        },
+      });
+      for (const row of rows) {
+        expect(
+          content.slice(row.metadata.start_offset, row.metadata.end_offset)
+        ).toBe(row.content);
+      }
+    });
+
+    it("should generate a source id for documents without one", async () => {
+      const result = await client.ingest([{ pageContent: "short text" }]);
+
+      expect(result.sourceIds).toEqual(["mock-uuid-123"]);
+      expect(result.chunks).toBe(1);
+    });
+
+    it("should accept a splitter instance", async () => {
+      const splitter = {
+        split: vi
+          .fn()
+          .mockReturnValue([
+            { text: "a", start: 0, end: 1, metadata: { headings: ["A"] } },
+          ]),
+      };
+
+      await client.ingest([{ id: "s", content: "a" }], { splitter });
+
+      const rows = (mockSupabaseClient.from as any).mock.results[0].value.insert
+        .mock.calls[0][0];
+      expect(splitter.split).toHaveBeenCalledWith("a");
+      expect(rows[0].metadata).toMatchObject({
+        headings: ["A"],
+        source_id: "s",
+        chunk_index: 0,
+      });
+    });
+  });
+
+  describe("search", () => {
+    it("should search with default parameters", async () => {
+      const results = await client.search("test query");
+
+      expect(mockProvider.createEmbedding).toHaveBeenCalledWith("test query", {
+        inputType: "query",
+      });
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith("match_documents", {
+        query_embedding: [0.1, 0.2, 0.3],
+        match_threshold: 0.8,
+        match_count: 10,
+        table_name: "test_documents",
+      });
+      expect(results).toEqual([
+        { id: "1", content: "test content", metadata: {}, similarity: 0.9 },
+      ]);
+    });
+
+    it("should search with custom parameters", async () => {
+      const options = {
+        table: "custom_table",
+        threshold: 0.9,
+        limit: 5,
+        rpc: "custom_match",
+      };
+
+      await client.search("test query", options);
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith("custom_match", {
+        query_embedding: [0.1, 0.2, 0.3],
+        match_threshold: 0.9,
+        match_count: 5,
+        table_name: "custom_table",
+      });
+    });
+
+    it("should pass non-cosine metrics to the RPC", async () => {
+      const ipClient = new EmbeddingsClient({
+        ...defaultConfig,
+        metric: "inner_product",
+      });
+
+      await ipClient.search("test query");
+      expect(mockSupabaseClient.rpc).toHaveBeenLastCalledWith(
+        "match_documents",
+        expect.objectContaining({ metric: "inner_product" })
+      );
+
+      await ipClient.search("test query", { metric: "cosine" });
+      expect(
+        vi.mocked(mockSupabaseClient.rpc).mock.lastCall![1]
+      ).not.toHaveProperty("metric");
+
+      await expect(
+        client.search("test query", { metric: "dot" as any })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it("should send tuning and exact search as search_settings", async () => {
+      await client.search("test query", {
+        tuning: { efSearch: 100, probes: 10, iterativeScan: "relaxed_order" },
+        exact: true,
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenLastCalledWith(
+        "match_documents",
+        expect.objectContaining({
+          search_settings: {
+            ef_search: 100,
+            probes: 10,
+            iterative_scan: "relaxed_order",
+            exact: true,
+          },
+        })
+      );
+
+      await client.search("test query", { tuning: {} });
+      expect(
+        vi.mocked(mockSupabaseClient.rpc).mock.lastCall![1]
+      ).not.toHaveProperty("search_settings");
+    });
+
+    it("should reject invalid tuning", async () => {
+      await expect(
+        client.search("test query", { tuning: { efSearch: 0 } })
+      ).rejects.toThrow("tuning.efSearch must be a positive integer");
+      await expect(
+        client.search("test query", {
+          tuning: { iterativeScan: "fast" as any },
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it("should include filters in RPC call", async () => {
+      await client.search("test query", { filters: { user_id: "user123" } });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents",
+        expect.objectContaining({ filters: { user_id: "user123" } })
+      );
+    });
+
+    it("should send metadata filters to match_documents_filtered", async () => {
+      await client.search("test query", {
+        filters: { user_id: "user123" },
+        metadata: { category: "tech" },
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents_filtered",
+        {
+          query_embedding: [0.1, 0.2, 0.3],
+          match_threshold: 0.8,
+          match_count: 10,
+          table_name: "test_documents",
+          filter: {
+            op: "and",
+            args: [
+              { op: "eq", column: "user_id", path: [], value: "user123" },
+              {
+                op: "contains",
+                column: "metadata",
+                path: [],
+                value: { category: "tech" },
+              },
+            ],
+          },
+        }
+      );
+    });
+
+    it("should handle select option", async () => {
+      const options = { select: "id, content, metadata" };
+      const mockData = [
+        {
+          id: "1",
+          content: "test",
+          metadata: {},
+          similarity: 0.9,
+          extra: "field",
+        },
+      ];
+
+      mockSupabaseClient.rpc = vi
+        .fn()
+        .mockResolvedValue({ data: mockData, error: null });
+
+      const results = await client.search("test query", options);
+
+      expect(results).toEqual([{ id: "1", content: "test", metadata: {} }]);
+    });
+
+    it("should handle orderBy option", async () => {
+      const options = { orderBy: "created_at" as const };
+      const mockData = [
+        { id: "2", created_at: "2023-02-01" },
+        { id: "1", created_at: "2023-01-01" },
+      ];
+
+      mockSupabaseClient.rpc = vi
+        .fn()
+        .mockResolvedValue({ data: mockData, error: null });
+
+      const results = await client.search("test query", options);
+
+      expect(results[0].id).toBe("1");
+      expect(results[1].id).toBe("2");
+    });
+
+    it("should handle includeDistance option", async () => {
+      const options = { includeDistance: true };
+      const mockData = [{ id: "1", content: "test" }];
+
+      mockSupabaseClient.rpc = vi
+        .fn()
+        .mockResolvedValue({ data: mockData, error: null });
+
+      const results = await client.search("test query", options);
+
+      expect(results).toEqual([{ id: "1", content: "test", similarity: 0 }]);
+    });
+
+    it("should throw ValidationError when no table is provided and defaultTable is empty", async () => {
+      const clientWithoutTable = new EmbeddingsClient({
+        supabaseClient: mockSupabaseClient,
+        provider: mockProvider,
+        table: "", // Empty string should trigger validation error
+      });
+
+      await expect(clientWithoutTable.search("test query")).rejects.toThrow(
+        ValidationError
+      );
+      await expect(clientWithoutTable.search("test query")).rejects.toThrow(
+        "Table name is required"
+      );
+    });
+
+    it("should throw DatabaseError when RPC fails", async () => {
+      const mockError = { message: "RPC function not found" };
+      mockSupabaseClient.rpc = vi
+        .fn()
+        .mockResolvedValue({ data: null, error: mockError });
+
+      await expect(client.search("test query")).rejects.toThrow(DatabaseError);
+      await expect(client.search("test query")).rejects.toThrow(
+        "Search failed"
+      );
+    });
+
+    it("should handle RPC throwing error", async () => {
+      mockSupabaseClient.rpc = vi
+        .fn()
+        .mockRejectedValue(new Error("Network error"));
+
+      await expect(client.search("test query")).rejects.toThrow(DatabaseError);
+      await expect(client.search("test query")).rejects.toThrow(
+        "Search operation failed"
+      );
+    });
+
+    it("should handle null data from RPC", async () => {
+      mockSupabaseClient.rpc = vi
+        .fn()
+        .mockResolvedValue({ data: null, error: null });
+
+      const results = await client.search("test query");
+
+      expect(results).toEqual([]);
+    });
+  });
+
+  describe("where", () => {
+    it("should compile the filter for match_documents_filtered", async () => {
+      await client.search("query", {
+        where: { or: [{ "metadata.year": { gte: 2020 } }, { user_id: "u1" }] },
+        metadata: { lang: "en" },
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents_filtered",
+        {
+          query_embedding: [0.1, 0.2, 0.3],
+          match_threshold: 0.8,
+          match_count: 10,
+          table_name: "test_documents",
+          filter: {
+            op: "and",
+            args: [
+              {
+                op: "or",
+                args: [
+                  {
+                    op: "gte",
+                    column: "metadata",
+                    path: ["year"],
+                    value: 2020,
+                  },
+                  { op: "eq", column: "user_id", path: [], value: "u1" },
+                ],
+              },
+              {
+                op: "contains",
+                column: "metadata",
+                path: [],
+                value: { lang: "en" },
+              },
+            ],
+          },
+        }
+      );
+    });
+
+    it("should reject invalid filters before embedding the query", async () => {
+      await expect(
+        client.search("query", { where: { "bad column": 1 } })
+      ).rejects.toThrow(ValidationError);
+      expect(mockProvider.createEmbedding).not.toHaveBeenCalled();
+    });
+
+    it("should filter both hybrid search legs", async () => {
+      mockSupabaseClient.rpc = vi
+        .fn()
+        .mockResolvedValue({ data: [], error: null });
+
+      await client.hybridSearch("query", { where: { user_id: "u1" } });
+
+      const compiled = { op: "eq", column: "user_id", path: [], value: "u1" };
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents_filtered",
+        expect.objectContaining({ filter: compiled })
+      );
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents_text",
+        expect.objectContaining({ filter: compiled })
+      );
+    });
+  });
+
+  describe("pagination", () => {
+    const rows = [
+      { id: "a", content: "A", metadata: {}, similarity: 0.9 },
+      { id: "b", content: "B", metadata: {}, similarity: 0.85 },
+      { id: "c", content: "C", metadata: {}, similarity: 0.85 },
+    ];
+
+    it("should return a page with a cursor when more rows follow", async () => {
+      vi.mocked(mockSupabaseClient.rpc).mockResolvedValueOnce({
+        data: rows,
+        error: null,
+      } as any);
+
+      const page = await client.search("test query", {
+        limit: 2,
+        paginate: true,
+        filters: { user_id: "u1" },
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents_page",
+        {
+          query_embedding: [0.1, 0.2, 0.3],
+          match_threshold: 0.8,
+          match_count: 3,
+          table_name: "test_documents",
+          filter: { op: "eq", column: "user_id", path: [], value: "u1" },
+        }
+      );
+      expect(page.results.map((r) => r.id)).toEqual(["a", "b"]);
+      expect(page.nextCursor).toEqual(expect.any(String));
+    });
+
+    it("should pass the cursor position to the RPC", async () => {
+      vi.mocked(mockSupabaseClient.rpc).mockResolvedValueOnce({
+        data: rows,
+        error: null,
+      } as any);
+      const first = await client.search("test query", {
+        limit: 2,
+        paginate: true,
+      });
+
+      vi.mocked(mockSupabaseClient.rpc).mockResolvedValueOnce({
+        data: [rows[2]],
+        error: null,
+      } as any);
+      const second = await client.search("test query", {
+        limit: 2,
+        cursor: first.nextCursor!,
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenLastCalledWith(
+        "match_documents_page",
+        expect.objectContaining({ after_similarity: 0.85, after_id: "b" })
+      );
+      expect(second).toEqual({ results: [rows[2]], nextCursor: null });
+    });
+
+    it("should reject invalid cursors and reordering options", async () => {
+      await expect(
+        client.search("test query", { cursor: "not-a-cursor" })
+      ).rejects.toThrow("Invalid cursor");
+      await expect(
+        client.search("test query", { paginate: true, mmr: true })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        client.search("test query", {
+          paginate: true,
+          orderBy: "created_at",
+        })
+      ).rejects.toThrow("Pagination cannot be combined");
+    });
+  });
+
+  describe("mmr", () => {
+    const candidates = [
+      { id: "a", content: "A", similarity: 0.99 },
+      { id: "a-copy", content: "A again", similarity: 0.98 },
+      { id: "b", content: "B", similarity: 0.9 },
+    ];
+
+    beforeEach(() => {
+      mockProvider.createEmbedding = vi.fn().mockResolvedValue([[1, 0.3]]);
+      mockSupabaseClient.rpc = vi
+        .fn()
+        .mockResolvedValue({ data: candidates, error: null });
+    });
+
+    it("should over-fetch and pick diverse results", async () => {
+      const query = mockQuery({
+        data: [
+          { id: "a", embedding: "[1,0.25]" },
+          { id: "a-copy", embedding: "[1,0.2]" },
+          { id: "b", embedding: "[0.5,1]" },
+        ],
+        error: null,
+      });
+      mockSupabaseClient.from = vi.fn().mockReturnValue(query);
+
+      const results = await client.search("query", { limit: 2, mmr: true });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents",
+        expect.objectContaining({ match_count: 8 })
+      );
+      expect(query.select).toHaveBeenCalledWith("id, embedding");
+      expect(query.in).toHaveBeenCalledWith("id", ["a", "a-copy", "b"]);
+      expect(results.map((result) => result.id)).toEqual(["a", "b"]);
+    });
+
+    it("should use embeddings returned by the RPC", async () => {
+      mockSupabaseClient.rpc = vi.fn().mockResolvedValue({
+        data: [
+          { id: "a", content: "A", embedding: [1, 0.25] },
+          { id: "a-copy", content: "A again", embedding: [1, 0.2] },
+          { id: "b", content: "B", embedding: [0.5, 1] },
+        ],
+        error: null,
+      });
+      mockSupabaseClient.from = vi.fn();
+
+      const results = await client.search("query", {
+        limit: 2,
+        mmr: { lambda: 1, fetchK: 20 },
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents",
+        expect.objectContaining({ match_count: 20 })
+      );
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+      expect(results.map((result) => result.id)).toEqual(["a", "a-copy"]);
+    });
+
+    it("should apply MMR to every reranked candidate", async () => {
+      mockSupabaseClient.rpc = vi.fn().mockResolvedValue({
+        data: [
+          { id: "a", content: "A", embedding: [1, 0.25] },
+          { id: "a-copy", content: "A again", embedding: [1, 0.2] },
+          { id: "b", content: "B", embedding: [0.5, 1] },
+        ],
+        error: null,
+      });
+      // The reranker prefers b, then the near-duplicate pair
+      const reranker = {
+        rerank: vi.fn().mockResolvedValue([
+          { index: 2, score: 0.9 },
+          { index: 0, score: 0.8 },
+          { index: 1, score: 0.79 },
+        ]),
+      };
+
+      const results = await client.search("query", {
+        limit: 2,
+        mmr: { fetchK: 30 },
+        rerank: { reranker },
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents",
+        expect.objectContaining({ match_count: 30 })
+      );
+      expect(reranker.rerank).toHaveBeenCalledWith(
+        "query",
+        ["A", "A again", "B"],
+        { topN: 3 }
+      );
+      expect(results.map((result) => result.id)).toEqual(["b", "a"]);
+    });
+
+    it("should reject a lambda outside [0, 1]", async () => {
+      await expect(
+        client.search("query", { mmr: { lambda: 2 } })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("rerank", () => {
+    const candidates = [
+      { id: "1", content: "first", similarity: 0.95 },
+      { id: "2", content: "second", similarity: 0.9 },
+      { id: "3", content: "third", similarity: 0.85 },
+    ];
+    let reranker: { rerank: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      mockSupabaseClient.rpc = vi
+        .fn()
+        .mockResolvedValue({ data: candidates, error: null });
+      reranker = {
+        rerank: vi.fn().mockResolvedValue([
+          { index: 2, score: 0.9 },
+          { index: 0, score: 0.4 },
+        ]),
+      };
+    });
+
+    it("should reorder candidates by rerank score", async () => {
+      const rerankingClient = new EmbeddingsClient({
+        ...defaultConfig,
+        reranker,
+      });
+
+      const results = await rerankingClient.search("query", {
+        limit: 2,
+        rerank: { candidates: 30 },
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents",
+        expect.objectContaining({ match_count: 30 })
+      );
+      expect(reranker.rerank).toHaveBeenCalledWith(
+        "query",
+        ["first", "second", "third"],
+        { topN: 2 }
+      );
+      expect(results).toEqual([
+        { ...candidates[2], rerankScore: 0.9 },
+        { ...candidates[0], rerankScore: 0.4 },
+      ]);
+    });
+
+    it("should keep topN separate from limit", async () => {
+      const results = await client.search("query", {
+        limit: 3,
+        rerank: { reranker, topN: 1 },
+      });
+
+      expect(reranker.rerank).toHaveBeenCalledWith("query", expect.any(Array), {
+        topN: 1,
+      });
+      expect(results.map((result) => result.id)).toEqual(["3"]);
+    });
+
+    it("should fetch four times the limit for reranking by default", async () => {
+      await client.search("query", { limit: 5, rerank: { reranker } });
+      await client.search("query", { limit: 50, rerank: { reranker } });
+
+      expect(
+        vi
+          .mocked(mockSupabaseClient.rpc)
+          .mock.calls.map(([, params]: any) => params.match_count)
+      ).toEqual([20, 100]);
+    });
+
+    it("should keep the type of reranker errors", async () => {
+      reranker.rerank.mockRejectedValue(
+        new RateLimitError("Too many requests", "cohere", 429, 1000)
+      );
+
+      await expect(
+        client.search("query", { rerank: { reranker } })
+      ).rejects.toBeInstanceOf(RateLimitError);
+    });
+
+    it("should require a reranker", async () => {
+      await expect(client.search("query", { rerank: true })).rejects.toThrow(
+        ConfigurationError
+      );
+    });
+  });
+
+  describe("hybridSearch", () => {
+    beforeEach(() => {
+      mockSupabaseClient.rpc = vi.fn().mockImplementation(async (name) => ({
+        data:
+          name === "match_documents"
+            ? [
+                { id: "1", content: "vector", similarity: 0.9 },
+                { id: "2", content: "both", similarity: 0.85 },
+              ]
+            : [
+                { id: "2", content: "both", text_score: 0.5 },
+                { id: "3", content: "text", text_score: 0.3 },
+              ],
+        error: null,
+      }));
+    });
+
+    it("should run both legs and fuse the results", async () => {
+      const results = await client.hybridSearch("query", { limit: 2 });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith("match_documents", {
+        query_embedding: [0.1, 0.2, 0.3],
+        match_threshold: 0.8,
+        match_count: 4,
+        table_name: "test_documents",
+      });
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents_text",
+        {
+          search_text: "query",
+          match_count: 4,
+          table_name: "test_documents",
+          language: "english",
+        }
+      );
+      expect(results).toHaveLength(2);
+      expect(results[0]).toMatchObject({
+        id: "2",
+        vector_score: 0.85,
+        text_score: 0.5,
+      });
+    });
+
+    it("should pass per-leg limits, language and filters", async () => {
+      await client.hybridSearch("query", {
+        vectorLimit: 50,
+        textLimit: 20,
+        language: "german",
+        threshold: 0.5,
+        filters: { user_id: "u1" },
+        metadata: { lang: "de" },
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents_filtered",
+        expect.objectContaining({
+          match_count: 50,
+          match_threshold: 0.5,
+          filter: {
+            op: "and",
+            args: [
+              { op: "eq", column: "user_id", path: [], value: "u1" },
+              {
+                op: "contains",
+                column: "metadata",
+                path: [],
+                value: { lang: "de" },
+              },
+            ],
+          },
+        })
+      );
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents_text",
+        expect.objectContaining({
+          match_count: 20,
+          language: "german",
+          filters: { user_id: "u1" },
+          metadata_filter: { lang: "de" },
+        })
+      );
+    });
+
+    it("should support weighted fusion", async () => {
+      const results = await client.hybridSearch("query", {
+        fusion: "weighted",
+        weights: { vector: 1, text: 0 },
+      });
+
+      expect(results.map((result) => result.id)).toEqual(["1", "2", "3"]);
+      expect(results[0].score).toBeCloseTo(0.9);
+    });
+
+    it("should throw DatabaseError when text search fails", async () => {
+      mockSupabaseClient.rpc = vi
+        .fn()
+        .mockImplementation(async (name) =>
+          name === "match_documents"
+            ? { data: [], error: null }
+            : { data: null, error: { message: "no such function" } }
+        );
+
+      await expect(client.hybridSearch("query")).rejects.toThrow(
+        "Text search failed: no such function"
+      );
+    });
+  });
+
+  describe("parent documents", () => {
+    const hits = [
+      {
+        id: "a1",
+        content: "A one",
+        metadata: { source_id: "A", chunk_index: 1 },
+        similarity: 0.95,
+      },
+      {
+        id: "a2",
+        content: "A two",
+        metadata: { source_id: "A", chunk_index: 2 },
+        similarity: 0.9,
+      },
+      {
+        id: "b0",
+        content: "B zero",
+        metadata: { source_id: "B", chunk_index: 0 },
+        similarity: 0.88,
+      },
+      { id: "loose", content: "No source", metadata: {}, similarity: 0.85 },
+    ];
+
+    beforeEach(() => {
+      mockSupabaseClient.rpc = vi
+        .fn()
+        .mockResolvedValue({ data: hits, error: null });
+    });
+
+    it("should return the best chunk per source", async () => {
+      const results = await client.search("query", {
+        limit: 2,
+        groupBySource: true,
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents",
+        expect.objectContaining({ match_count: 10 })
+      );
+      expect(results).toEqual([
+        expect.objectContaining({ id: "a1", source_id: "A", matches: 2 }),
+        expect.objectContaining({ id: "b0", source_id: "B", matches: 1 }),
+      ]);
+    });
+
+    it("should group rows without a source on their own", async () => {
+      const results = await client.search("query", {
+        groupBySource: { candidates: 30 },
+      });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        "match_documents",
+        expect.objectContaining({ match_count: 30 })
+      );
+      expect(results.map((result) => result.source_id)).toEqual([
+        "A",
+        "B",
+        "loose",
+      ]);
+    });
+
+    it("should group every reranked candidate", async () => {
+      const reranker = {
+        rerank: vi.fn().mockResolvedValue([
+          { index: 1, score: 0.9 },
+          { index: 3, score: 0.8 },
+          { index: 0, score: 0.7 },
+          { index: 2, score: 0.6 },
+        ]),
+      };
+
+      const results = await client.search("query", {
+        limit: 2,
+        groupBySource: true,
+        rerank: { reranker },
+      });
+
+      expect(reranker.rerank).toHaveBeenCalledWith("query", expect.any(Array), {
+        topN: 4,
+      });
+      expect(results).toEqual([
+        expect.objectContaining({ id: "a2", source_id: "A", matches: 2 }),
+        expect.objectContaining({ id: "loose", matches: 1 }),
+      ]);
+    });
+
+    it("should attach parent rows", async () => {
+      const query = mockQuery({
+        data: [{ id: "A", title: "Doc A", url: "https://a" }],
+        error: null,
+      });
+      mockSupabaseClient.from = vi.fn().mockReturnValue(query);
+
+      const results = await client.search("query", {
+        limit: 2,
+        groupBySource: { includeSource: true },
+      });
+
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith(
+        "test_documents_sources"
+      );
+      expect(query.in).toHaveBeenCalledWith("id", ["A", "B"]);
+      expect(results[0].source).toEqual({
+        id: "A",
+        title: "Doc A",
+        url: "https://a",
+      });
+      expect(results[1].source).toBeNull();
+    });
+
+    it("should attach neighbouring chunks in document order", async () => {
+      const query = mockQuery({
+        data: [
+          { id: "a2", content: "A two", metadata: { chunk_index: 2 } },
+          { id: "a0", content: "A zero", metadata: { chunk_index: 0 } },
+          { id: "a1", content: "A one", metadata: { chunk_index: 1 } },
+        ],
+        error: null,
+      });
+      mockSupabaseClient.from = vi.fn().mockReturnValue(query);
+
+      const results = await client.search("query", {
+        limit: 1,
+        groupBySource: { neighbors: 1 },
+      });
+
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith("test_documents");
+      expect(query.eq).toHaveBeenCalledWith("metadata->>source_id", "A");
+      expect(query.gte).toHaveBeenCalledWith("metadata->chunk_index", 0);
+      expect(query.lte).toHaveBeenCalledWith("metadata->chunk_index", 2);
+      expect(results[0].context!.map((chunk) => chunk.id)).toEqual([
+        "a0",
+        "a1",
+        "a2",
+      ]);
+    });
+
+    it("should keep group fields when selecting columns", async () => {
+      const results = await client.search("query", {
+        select: "content",
+        groupBySource: true,
+      });
+
+      expect(results[0]).toEqual({
+        content: "A one",
+        source_id: "A",
+        matches: 2,
+      });
+    });
+
+    it("should store parent rows before their chunks when ingesting", async () => {
+      const upsertMock = vi.fn().mockResolvedValue({ error: null });
+      const insertMock = vi.fn().mockResolvedValue({ error: null });
+      mockSupabaseClient.from = vi.fn().mockReturnValue({
+        upsert: upsertMock,
+        insert: insertMock,
+      });
+
+      await client.ingest(
+        [
+          {
+            id: "guide",
+            content: "Full guide text",
+            url: "https://example.com/guide",
+            title: "Guide",
+            user_id: "u1",
+            metadata: { lang: "en" },
+          },
+        ],
+        { sources: { storeContent: false } }
+      );
+
+      expect(mockSupabaseClient.from).toHaveBeenNthCalledWith(
+        1,
+        "test_documents_sources"
+      );
+      expect(upsertMock).toHaveBeenCalledWith(
+        [
+          {
+            id: "guide",
+            url: "https://example.com/guide",
+            title: "Guide",
+            metadata: { lang: "en" },
+          },
+        ],
+        { onConflict: "id" }
+      );
+      const [chunk] = insertMock.mock.calls[0][0];
+      expect(chunk).toMatchObject({ source_id: "guide", user_id: "u1" });
+      expect(chunk).not.toHaveProperty("url");
+      expect(chunk).not.toHaveProperty("title");
+    });
+
+    it("should throw DatabaseError when storing sources fails", async () => {
+      mockSupabaseClient.from = vi.fn().mockReturnValue({
+        upsert: vi.fn().mockResolvedValue({ error: { message: "denied" } }),
+      });
+
+      await expect(
+        client.ingest([{ content: "text" }], { sources: true })
+      ).rejects.toThrow("Failed to store sources: denied");
+    });
+  });
+
+  describe("similarity", () => {
+    it("should calculate similarity between two strings", async () => {
+      const { cosineSimilarity } = await import("./utils");
+
+      const result = await client.similarity("text1", "text2");
+
+      expect(mockProvider.createEmbedding).toHaveBeenCalledWith(
+        ["text1", "text2"],
+        undefined
+      );
+      expect(cosineSimilarity).toHaveBeenCalledWith(
+        [0.1, 0.2, 0.3],
+        [0.4, 0.5, 0.6]
+      );
+      expect(result).toBe(0.95);
+    });
+
+    it("should use the client metric", async () => {
+      const l2Client = new EmbeddingsClient({ ...defaultConfig, metric: "l2" });
+
+      // 1 / (1 + sqrt(3 * 0.3^2))
+      expect(await l2Client.similarity("text1", "text2")).toBeCloseTo(
+        0.65806,
+        5
+      );
+      expect(
+        await l2Client.similarity("text1", "text2", "inner_product")
+      ).toBeCloseTo(0.32, 10);
+    });
+  });
+
+  describe("cosineSimilarity", () => {
+    it("should calculate cosine similarity between two vectors", async () => {
+      const { cosineSimilarity } = await import("./utils");
+
+      const vector1 = [0.1, 0.2, 0.3];
+      const vector2 = [0.4, 0.5, 0.6];
+
+      const result = await client.cosineSimilarity(vector1, vector2);
+
+      expect(cosineSimilarity).toHaveBeenCalledWith(vector1, vector2);
+      expect(result).toBe(0.95);
+    });
+  });
+
+  describe("edge cases and error handling", () => {
+    it("should handle empty data array in store", async () => {
+      await client.store([]);
+
+      expect(mockProvider.createEmbedding).not.toHaveBeenCalled();
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+
+    it("should handle empty metadata in store", async () => {
+      const data: StoreData[] = [{ content: "test" }];
+
+      await client.store(data);
+
+      const insertCall = (mockSupabaseClient.from as any).mock.results[0].value
+        .insert;
+      expect(insertCall).toHaveBeenCalledWith([
+        expect.objectContaining({
+          metadata: {},
+        }),
+      ]);
+    });
+
+    it("should handle provider errors gracefully", async () => {
+      mockProvider.createEmbedding = vi
+        .fn()
+        .mockRejectedValue(new Error("Provider error"));
+
+      const data: StoreData[] = [{ content: "test" }];
+
+      await expect(client.store(data)).rejects.toThrow("Provider error");
+    });
 
     it("should handle search with empty query", async () => {
       const results = await client.search("");
 
-      expect(mockProvider.createEmbedding).toHaveBeenCalledWith("", undefined);
+      expect(mockProvider.createEmbedding).toHaveBeenCalledWith("", {
+        inputType: "query",
+      });
       expect(results).toEqual([
         { id: "1", content: "test content", metadata: {}, similarity: 0.9 },
       ]);
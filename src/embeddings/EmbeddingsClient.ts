@@ -5,24 +5,116 @@ import type {
   StoreData,
   StoreInput,
   StoreOptions,
+  StoreResult,
+  StoreProgress,
+  StoreStreamOptions,
   SearchOptions,
   SearchResult,
   EmbeddingProvider,
+  FilterOptions,
+  GetOptions,
+  DeleteOptions,
+  DeleteResult,
+  UpdateData,
+  UpdateOptions,
+  IngestOptions,
+  IngestResult,
+  Tokenizer,
+  GroupBySourceOptions,
+  GroupedSearchResult,
+  SourceDocument,
+  HybridSearchOptions,
+  HybridSearchResult,
+  Reranker,
+  Filter,
+  CompiledFilter,
+  DistanceMetric,
+  SearchPage,
+  SearchTimings,
+  EmbedEvent,
+  HookOperation,
+  UsageOptions,
+  UsageRecord,
+  UsageReport,
 } from "../types";
-import { DatabaseError, ValidationError } from "../types/errors";
+import {
+  ConfigurationError,
+  DatabaseError,
+  EmbeddingProviderError,
+  StoreBatchError,
+  ValidationError,
+} from "../types/errors";
 import { generateId, cosineSimilarity } from "./utils";
+import { vectorSimilarity } from "../utils/vector-ops";
+import { mapWithConcurrency, packBatches } from "./batching";
+import { hashContent } from "./hashing";
+import { createTextSplitter } from "../splitters";
+import { getTokenizer } from "../tokenizers";
+import { fuseResults } from "./fusion";
+import { compileFilter, legacyFilter } from "../filters";
+import { maximalMarginalRelevance } from "./mmr";
+import { decodeCursor, encodeCursor } from "./cursor";
+import { parseVector } from "./cache";
+import { HookRunner } from "./hooks";
+import {
+  UsageTally,
+  UsageTracker,
+  combineUsage,
+  embedWithUsage,
+} from "./usage";
+import { METRICS } from "../schema/metrics";
+import {
+  defaultSourcesTable,
+  getChunkIndex,
+  groupHitsBySource,
+} from "./grouping";
+
+// Reranker scores scaled to [0, 1] so MMR's lambda weighs them like
+// similarities; undefined when the candidates weren't reranked
+function rerankRelevance(candidates: SearchResult[]): number[] | undefined {
+  const scores = candidates.map((candidate) => candidate.rerankScore);
+  if (scores.length === 0 || scores.some((score) => score === undefined)) {
+    return undefined;
+  }
+
+  const min = Math.min(...(scores as number[]));
+  const range = Math.max(...(scores as number[])) - min;
+  return (scores as number[]).map((score) =>
+    range === 0 ? 1 : (score - min) / range
+  );
+}
+
+// Default rerank candidates are limit * 4, capped here unless set explicitly
+const MAX_RERANK_CANDIDATES = 100;
+
+// Grouped results keep these fields whatever `select` asks for
+const GROUP_FIELDS = ["source_id", "matches", "source", "context"];
+
+// Where an embedding request comes from, for the embed hooks, and the
+// tally its usage is added to
+type EmbedContext = Pick<EmbedEvent, "operation" | "parentId" | "table"> & {
+  tally: UsageTally;
+};
 
 export class EmbeddingsClient {
   private supabase: SupabaseClient;
   private provider: EmbeddingProvider;
   private defaultTable: string;
   private defaultThreshold: number;
+  private metric: DistanceMetric;
+  private reranker: Reranker | undefined;
+  private hooks: HookRunner;
+  private usage: UsageTracker;
 
   constructor(config: EmbeddingsClientConfig) {
     this.supabase = config.supabaseClient;
     this.provider = config.provider;
     this.defaultTable = config.table ?? "documents";
     this.defaultThreshold = config.threshold ?? 0.8;
+    this.metric = config.metric ?? "cosine";
+    this.reranker = config.reranker;
+    this.hooks = new HookRunner(config.hooks);
+    this.usage = new UsageTracker(config.pricing, config.usageMeter);
   }
 
   private normalizeStoreInput(item: StoreInput): StoreData {
@@ -42,32 +134,167 @@ export class EmbeddingsClient {
     input: string | string[],
     options?: CreateOptions
   ): Promise<number[][]> {
-    return this.provider.createEmbedding(input, options);
+    return this.usage.track(
+      this.usageDetails("create", undefined, options),
+      (tally) => this.embed(input, options, { operation: "create", tally })
+    );
+  }
+
+  private async embed(
+    input: string | string[],
+    options: CreateOptions | undefined,
+    { tally, ...context }: EmbedContext
+  ): Promise<number[][]> {
+    const model = options?.model ?? this.provider.getModel();
+    const response = await this.hooks.run(
+      "embed",
+      {
+        ...context,
+        model,
+        inputs: Array.isArray(input) ? input.length : 1,
+        ...(options?.inputType && { inputType: options.inputType }),
+      },
+      async () => {
+        const response = await embedWithUsage(this.provider, input, options);
+        tally.add(model, response.usage);
+        return response;
+      },
+      (response) => ({ tokens: response.usage.tokens })
+    );
+
+    return response.embeddings;
   }
 
-  async store(data: StoreInput[], options?: StoreOptions): Promise<void> {
-    const table = options?.table ?? this.defaultTable;
+  private usageDetails(
+    operation: HookOperation,
+    table: string | undefined,
+    options: UsageOptions | undefined
+  ): Omit<UsageRecord, keyof UsageReport> {
+    return {
+      operation,
+      ...(table && { table }),
+      ...(options?.usageTags && { tags: options.usageTags }),
+    };
+  }
+
+  getUsage(): UsageReport {
+    return this.usage.getUsage();
+  }
+
+  resetUsage(): void {
+    this.usage.reset();
+  }
 
-    if (!table) {
+  async store(
+    data: StoreInput[],
+    options?: StoreOptions
+  ): Promise<StoreResult> {
+    const table = this.resolveTable(options?.table);
+
+    return this.hooks.run(
+      "store",
+      { operation: "store", table, items: data.length },
+      (id) =>
+        this.usage.track(
+          this.usageDetails("store", table, options),
+          async (tally) => {
+            try {
+              const result = await this.storeItems(
+                table,
+                data,
+                options,
+                id,
+                tally
+              );
+              return { ...result, usage: tally.report() };
+            } catch (error) {
+              if (error instanceof StoreBatchError) {
+                error.result.usage = tally.report();
+              }
+              throw error;
+            }
+          }
+        ),
+      (result) => ({
+        inserted: result.inserted,
+        updated: result.updated,
+        skipped: result.skipped,
+        failed: result.failed.length,
+      })
+    );
+  }
+
+  private async storeItems(
+    table: string,
+    data: StoreInput[],
+    options: StoreOptions | undefined,
+    id: string,
+    tally: UsageTally
+  ): Promise<StoreResult> {
+    const batchSize = options?.batchSize ?? 100;
+    const generateIds = options?.generateId === true;
+    const upsert = options?.upsert === true;
+    const conflictKey = options?.onConflict ?? "id";
+    const hashColumn = options?.hashColumn;
+    const checkpoint = options?.checkpoint;
+
+    if (checkpoint && checkpoint.total !== data.length) {
       throw new ValidationError(
-        "Table name is required. Provide either options.table or set defaultTable in constructor."
+        `The checkpoint belongs to ${checkpoint.total} items but ${data.length} were given. Resume with the same data.`,
+        "checkpoint"
       );
     }
 
-    const batchSize = options?.batchSize ?? 100;
-    const generateIds = options?.generateId === true;
+    // Normalize LangChain Documents to StoreData format
+    const allData = await this.enforceTokenLimit(
+      data.map((item) => this.normalizeStoreInput(item)),
+      options
+    );
+
+    // Items a checkpoint marks as completed are left out entirely. Below,
+    // indices refer to normalizedData and positions to the input array.
+    const completed = new Set(checkpoint?.completed);
+    const positions = allData
+      .map((_, position) => position)
+      .filter((position) => !completed.has(position));
+    const normalizedData = positions.map((position) => allData[position]);
 
-    const processedData: any[] = [];
+    const hashes = hashColumn
+      ? await Promise.all(
+          normalizedData.map((item) => hashContent(item.content))
+        )
+      : [];
 
-    for (const item of data) {
-      // Normalize LangChain Document to StoreData format
-      const normalizedItem = this.normalizeStoreInput(item);
+    const { pending, updates, skipped } = await this.planWrites(
+      table,
+      normalizedData,
+      hashes,
+      { upsert, conflictKey, hashColumn, batchSize }
+    );
 
-      const embeddings = await this.create(normalizedItem.content);
+    // Embeddings saved in the checkpoint are reused, not requested again
+    const saved = checkpoint?.embeddings ?? {};
+    const embeddingByIndex = new Map<number, number[]>();
+    const toEmbed = pending.filter((index) => {
+      const embedding = saved[positions[index]];
+      if (embedding) {
+        embeddingByIndex.set(index, embedding);
+      }
+      return !embedding;
+    });
+
+    const embeddings = await this.embedDocuments(
+      toEmbed.map((index) => normalizedData[index].content),
+      options,
+      { operation: "store", parentId: id, table, tally }
+    );
+    toEmbed.forEach((index, i) => embeddingByIndex.set(index, embeddings[i]));
 
+    const processedData: any[] = pending.map((dataIndex) => {
+      const normalizedItem = normalizedData[dataIndex];
       const record: any = {
         content: normalizedItem.content,
-        embedding: embeddings[0],
+        embedding: embeddingByIndex.get(dataIndex),
         metadata: normalizedItem.metadata ?? {},
         ...Object.fromEntries(
           Object.entries(normalizedItem).filter(
@@ -83,107 +310,1263 @@ export class EmbeddingsClient {
         record.id = generateId();
       }
 
-      processedData.push(record);
-    }
+      if (hashColumn) {
+        record[hashColumn] = hashes[dataIndex];
+      }
+
+      return record;
+    });
+
+    const result: StoreResult = {
+      inserted: 0,
+      updated: 0,
+      skipped,
+      batches: [],
+      failed: [],
+    };
+    const written = new Set<number>();
+    let failure: { message: string } | undefined;
 
     for (let i = 0; i < processedData.length; i += batchSize) {
       const batch = processedData.slice(i, i + batchSize);
+      const indices = pending.slice(i, i + batchSize);
+      const items = indices.map((index) => positions[index]);
+      const ids = batch
+        .filter((record) => record.id != null)
+        .map((record) => String(record.id));
 
-      const { error } = await this.supabase.from(table).insert(batch);
+      const { error } = upsert
+        ? await this.supabase
+            .from(table)
+            .upsert(batch, { onConflict: conflictKey })
+        : await this.supabase.from(table).insert(batch);
+
+      if (error) {
+        result.batches.push({ items, ids, error: error.message });
+        result.failed.push(
+          ...batch.map((record, j) => ({
+            index: items[j],
+            ...(record.id != null && { id: String(record.id) }),
+            reason: error.message,
+          }))
+        );
+
+        if (!options?.continueOnError) {
+          failure = error;
+          break;
+        }
+        continue;
+      }
+
+      result.batches.push({ items, ids });
+      indices.forEach((index, j) => {
+        written.add(items[j]);
+        if (updates.has(index)) {
+          result.updated++;
+        } else {
+          result.inserted++;
+        }
+      });
+    }
+
+    if (written.size < pending.length) {
+      const pendingIndices = new Set(pending);
+      const unwritten = pending.filter(
+        (index) => !written.has(positions[index])
+      );
+
+      result.checkpoint = {
+        total: data.length,
+        completed: [
+          ...completed,
+          ...positions.filter((_, index) => !pendingIndices.has(index)),
+          ...written,
+        ].sort((a, b) => a - b),
+        embeddings: Object.fromEntries(
+          unwritten.map((index) => [
+            positions[index],
+            embeddingByIndex.get(index)!,
+          ])
+        ),
+      };
+    }
+
+    if (failure) {
+      throw new StoreBatchError(
+        `Failed to store embeddings: ${failure.message}. ${written.size} of ${pending.length} items were written; pass error.result.checkpoint to resume.`,
+        result,
+        failure
+      );
+    }
+
+    return result;
+  }
+
+  // Tokenizer used to measure inputs for the configured model
+  getTokenizer(): Tokenizer {
+    return this.provider.tokenizer ?? getTokenizer(this.provider.getModel());
+  }
+
+  // getTokenizer() once its data is loaded, so that counts are exact
+  private async loadTokenizer(): Promise<Tokenizer> {
+    const tokenizer = this.getTokenizer();
+    await tokenizer.load?.();
+    return tokenizer;
+  }
+
+  // Rejects items over the provider's per-input token limit, or truncates
+  // them with `truncate: true`, before anything is hashed or embedded
+  private async enforceTokenLimit(
+    items: StoreData[],
+    options?: StoreOptions
+  ): Promise<StoreData[]> {
+    const maxTokens = options?.maxInputTokens ?? this.provider.maxInputTokens;
+    if (maxTokens === undefined) {
+      return items;
+    }
+
+    const tokenizer = await this.loadTokenizer();
+
+    return items.map((item, index) => {
+      const tokens = tokenizer.count(item.content);
+      if (tokens <= maxTokens) {
+        return item;
+      }
+
+      if (options?.truncate) {
+        return {
+          ...item,
+          content: tokenizer.truncate(item.content, maxTokens),
+        };
+      }
+
+      const label = item.id
+        ? `Item ${index} (id "${item.id}")`
+        : `Item ${index}`;
+      throw new ValidationError(
+        `${label} is ${tokens} tokens, over the ${maxTokens}-token input limit of ${this.provider.getModel()}. Split it into smaller chunks or pass truncate: true.`,
+        `data[${index}].content`
+      );
+    });
+  }
+
+  // Stores items from a (possibly unbounded) iterable such as a Node stream.
+  // Only one batch of `batchSize` items is held at a time, and the source is
+  // not read again until that batch is written.
+  async storeStream(
+    source: AsyncIterable<StoreInput> | Iterable<StoreInput>,
+    options?: StoreStreamOptions
+  ): Promise<StoreResult> {
+    const batchSize = options?.batchSize ?? 100;
+
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new ValidationError(
+        "batchSize must be a positive integer",
+        "batchSize"
+      );
+    }
+
+    const progress: StoreProgress = {
+      processed: 0,
+      embedded: 0,
+      inserted: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+    };
+    const batches: StoreResult["batches"] = [];
+    const failed: StoreResult["failed"] = [];
+    const usage: UsageReport[] = [];
+    let batch: StoreInput[] = [];
+
+    const flush = async () => {
+      const items = batch;
+      const offset = progress.processed;
+      batch = [];
+      progress.processed += items.length;
+
+      // Positions in each store() result are relative to its batch
+      const record = (result: StoreResult) => {
+        const shift = (index: number) => index + offset;
+        // Written rows, plus rows the checkpoint holds embeddings for
+        progress.embedded +=
+          result.inserted +
+          result.updated +
+          Object.keys(result.checkpoint?.embeddings ?? {}).length;
+        progress.inserted += result.inserted;
+        progress.updated += result.updated;
+        progress.skipped += result.skipped;
+        progress.failed +=
+          items.length - result.inserted - result.updated - result.skipped;
+        batches.push(
+          ...result.batches.map((entry) => ({
+            ...entry,
+            items: entry.items.map(shift),
+          }))
+        );
+        failed.push(
+          ...result.failed.map((entry) => ({
+            ...entry,
+            index: shift(entry.index),
+          }))
+        );
+        if (result.usage) {
+          usage.push(result.usage);
+        }
+      };
+
+      try {
+        record(await this.store(items, options));
+      } catch (error) {
+        if (error instanceof StoreBatchError) {
+          record(error.result);
+        } else {
+          progress.failed += items.length;
+        }
+        await options?.onProgress?.({ ...progress });
+        throw error;
+      }
+
+      await options?.onProgress?.({ ...progress });
+    };
+
+    for await (const item of source) {
+      batch.push(item);
+      if (batch.length >= batchSize) {
+        await flush();
+      }
+    }
+
+    if (batch.length > 0) {
+      await flush();
+    }
+
+    return {
+      inserted: progress.inserted,
+      updated: progress.updated,
+      skipped: progress.skipped,
+      batches,
+      failed,
+      usage: combineUsage(usage),
+    };
+  }
+
+  // Splits each document into chunks and stores them. Every chunk records
+  // where it came from in its metadata: source_id (the document id, or a
+  // generated one), chunk_index and its start/end character offsets.
+  // With `sources`, each document is also stored as a parent row (content,
+  // url, title, metadata) that its chunks reference through source_id.
+  async ingest(
+    documents: StoreInput[],
+    options?: IngestOptions
+  ): Promise<IngestResult> {
+    const {
+      splitter: splitterOption,
+      sources: sourcesOption,
+      ...storeOptions
+    } = options ?? {};
+    const splitter =
+      splitterOption === undefined
+        ? createTextSplitter({ type: "recursive" })
+        : "split" in splitterOption
+        ? splitterOption
+        : createTextSplitter(splitterOption);
+    const sources = sourcesOption === true ? {} : sourcesOption || undefined;
+
+    // Chunk sizes measured in tokens need the tokenizer's data in place
+    if (splitterOption && !("split" in splitterOption)) {
+      await splitterOption.tokenizer?.load?.();
+    }
+
+    const sourceIds: string[] = [];
+    const sourceRows: SourceDocument[] = [];
+    const chunks: StoreData[] = [];
+
+    for (const document of documents) {
+      const { id, content, metadata, ...documentFields } =
+        this.normalizeStoreInput(document);
+      const sourceId = id ?? generateId();
+      sourceIds.push(sourceId);
+
+      let fields: Record<string, any> = documentFields;
+      if (sources) {
+        const { url, title, ...chunkFields } = documentFields;
+        fields = { ...chunkFields, source_id: sourceId };
+        sourceRows.push({
+          id: sourceId,
+          metadata: metadata ?? {},
+          ...(sources.storeContent !== false && { content }),
+          ...(url !== undefined && { url }),
+          ...(title !== undefined && { title }),
+        });
+      }
+
+      splitter.split(content).forEach((chunk, index) => {
+        chunks.push({
+          ...fields,
+          content: chunk.text,
+          metadata: {
+            ...metadata,
+            ...chunk.metadata,
+            source_id: sourceId,
+            chunk_index: index,
+            start_offset: chunk.start,
+            end_offset: chunk.end,
+          },
+        });
+      });
+    }
+
+    // Parents go first so the chunks' foreign keys resolve
+    if (sources) {
+      await this.storeSources(
+        sources.table ??
+          defaultSourcesTable(this.resolveTable(storeOptions.table)),
+        sourceRows,
+        storeOptions.batchSize ?? 100
+      );
+    }
+
+    const result = await this.store(chunks, storeOptions);
+
+    return {
+      documents: documents.length,
+      chunks: chunks.length,
+      sourceIds,
+      ...result,
+    };
+  }
+
+  private async storeSources(
+    table: string,
+    rows: SourceDocument[],
+    batchSize: number
+  ): Promise<void> {
+    for (let i = 0; i < rows.length; i += batchSize) {
+      const { error } = await this.supabase
+        .from(table)
+        .upsert(rows.slice(i, i + batchSize), { onConflict: "id" });
 
       if (error) {
         throw new DatabaseError(
-          `Failed to store embeddings: ${error.message}`,
+          `Failed to store sources: ${error.message}`,
           error
         );
       }
     }
   }
 
-  async search(
-    query: string,
-    options?: SearchOptions
-  ): Promise<SearchResult[]> {
-    const table = options?.table ?? this.defaultTable;
+  // Decides which items need to be embedded and written. Upserted items are
+  // identified by their conflict key: an existing key is an update, skipped
+  // when its stored hash matches. Other items are identified by content hash
+  // alone and skipped when that content is already stored.
+  private async planWrites(
+    table: string,
+    items: StoreData[],
+    hashes: string[],
+    options: {
+      upsert: boolean;
+      conflictKey: string;
+      hashColumn: string | undefined;
+      batchSize: number;
+    }
+  ): Promise<{ pending: number[]; updates: Set<number>; skipped: number }> {
+    const { upsert, conflictKey, hashColumn, batchSize } = options;
+    const keys = items.map((item) =>
+      upsert ? (item[conflictKey] as unknown) : undefined
+    );
+    const isKeyed = (index: number) => keys[index] != null;
+
+    const existingByKey = new Map<unknown, string | undefined>();
+    if (upsert) {
+      const columns = hashColumn
+        ? `${conflictKey}, ${hashColumn}`
+        : conflictKey;
+      const rows = await this.selectIn(
+        table,
+        columns,
+        conflictKey,
+        keys.filter((key) => key != null),
+        batchSize
+      );
+      rows.forEach((row) =>
+        existingByKey.set(
+          row[conflictKey],
+          hashColumn ? row[hashColumn] : undefined
+        )
+      );
+    }
+
+    const existingHashes = new Set<string>();
+    if (hashColumn) {
+      const rows = await this.selectIn(
+        table,
+        hashColumn,
+        hashColumn,
+        hashes.filter((_, index) => !isKeyed(index)),
+        batchSize
+      );
+      rows.forEach((row) => existingHashes.add(row[hashColumn]));
+    }
+
+    const pending: number[] = [];
+    const updates = new Set<number>();
+    const seenHashes = new Set<string>();
+    let skipped = 0;
+
+    items.forEach((_, index) => {
+      const keyed = isKeyed(index);
+      const isExistingKey = keyed && existingByKey.has(keys[index]);
 
-    if (!table) {
+      if (hashColumn) {
+        const hash = hashes[index];
+        const unchanged = keyed
+          ? isExistingKey && existingByKey.get(keys[index]) === hash
+          : existingHashes.has(hash) || seenHashes.has(hash);
+
+        if (!keyed) {
+          seenHashes.add(hash);
+        }
+
+        if (unchanged) {
+          skipped++;
+          return;
+        }
+      }
+
+      if (isExistingKey) {
+        updates.add(index);
+      }
+      pending.push(index);
+    });
+
+    return { pending, updates, skipped };
+  }
+
+  private async selectIn(
+    table: string,
+    columns: string,
+    column: string,
+    values: unknown[],
+    batchSize: number
+  ): Promise<any[]> {
+    const unique = Array.from(new Set(values));
+    const rows: any[] = [];
+
+    for (let i = 0; i < unique.length; i += batchSize) {
+      const { data, error } = await this.supabase
+        .from(table)
+        .select(columns)
+        .in(column, unique.slice(i, i + batchSize));
+
+      if (error) {
+        throw new DatabaseError(
+          `Failed to look up existing rows: ${error.message}`,
+          error
+        );
+      }
+
+      rows.push(...(data ?? []));
+    }
+
+    return rows;
+  }
+
+  private async embedDocuments(
+    texts: string[],
+    options: StoreOptions | undefined,
+    context: EmbedContext
+  ): Promise<number[][]> {
+    const maxItems =
+      options?.embeddingBatchSize ?? this.provider.maxBatchSize ?? 100;
+    const maxTokens = options?.maxBatchTokens ?? this.provider.maxBatchTokens;
+    const concurrency = options?.concurrency ?? 1;
+
+    if (!Number.isInteger(maxItems) || maxItems < 1) {
       throw new ValidationError(
-        "Table name is required. Provide either options.table or set defaultTable in constructor."
+        "embeddingBatchSize must be a positive integer",
+        "embeddingBatchSize"
       );
     }
 
-    const queryEmbedding = await this.create(query);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError(
+        "concurrency must be a positive integer",
+        "concurrency"
+      );
+    }
+
+    // Token budgets are measured with the model's tokenizer
+    const tokenizer =
+      maxTokens !== undefined ? await this.loadTokenizer() : undefined;
+    const batches = packBatches(texts, {
+      maxItems,
+      ...(maxTokens !== undefined && { maxTokens }),
+      ...(tokenizer && {
+        estimateTokens: (text: string) => tokenizer.count(text),
+      }),
+    });
+    const embeddings = new Array<number[]>(texts.length);
+
+    await mapWithConcurrency(batches, concurrency, async (indices) => {
+      const vectors = await this.embed(
+        indices.map((index) => texts[index]),
+        { inputType: "document" },
+        context
+      );
+
+      if (vectors.length !== indices.length) {
+        throw new EmbeddingProviderError(
+          `Expected ${indices.length} embeddings, received ${vectors.length}`,
+          this.provider.name ?? "custom"
+        );
+      }
+
+      indices.forEach((index, position) => {
+        embeddings[index] = vectors[position];
+      });
+    });
+
+    return embeddings;
+  }
+
+  search(
+    query: string,
+    options: SearchOptions & ({ paginate: true } | { cursor: string })
+  ): Promise<SearchPage>;
+  search(
+    query: string,
+    options: SearchOptions & { groupBySource: true | GroupBySourceOptions }
+  ): Promise<GroupedSearchResult[]>;
+  search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+  async search(
+    query: string,
+    options?: SearchOptions
+  ): Promise<SearchResult[] | SearchPage> {
+    return this.observedSearch(query, options);
+  }
+
+  private async observedSearch(
+    query: string,
+    options?: SearchOptions,
+    parentId?: string
+  ): Promise<SearchResult[] | SearchPage> {
+    const table = this.resolveTable(options?.table);
+    const timings: SearchTimings = { embedMs: 0, rpcMs: 0, postProcessMs: 0 };
+
+    return this.hooks.run(
+      "search",
+      {
+        operation: "search",
+        table,
+        query,
+        limit: options?.limit ?? 10,
+        ...(parentId && { parentId }),
+      },
+      (id) =>
+        this.usage.track(this.usageDetails("search", table, options), (tally) =>
+          this.runSearch(table, query, options, timings, {
+            operation: "search",
+            parentId: id,
+            table,
+            tally,
+          })
+        ),
+      (result) => ({
+        results: (Array.isArray(result) ? result : result.results).length,
+        timings,
+      })
+    );
+  }
+
+  private async runSearch(
+    table: string,
+    query: string,
+    options: SearchOptions | undefined,
+    timings: SearchTimings,
+    // The query embedding belongs to the search call
+    context: EmbedContext
+  ): Promise<SearchResult[] | SearchPage> {
+    const paginate =
+      options?.paginate === true || options?.cursor !== undefined;
+    const after =
+      options?.cursor !== undefined ? decodeCursor(options.cursor) : undefined;
+    // match_documents has no metadata parameter and the page RPC only takes a
+    // typed filter, so legacy options are converted for those
+    const where = this.compileWhere(
+      options,
+      paginate || options?.metadata !== undefined
+    );
+    const metric = this.resolveMetric(options?.metric);
+    const settings = this.searchSettings(options);
+
+    let started = Date.now();
+    const queryEmbedding = await this.embed(
+      query,
+      { inputType: "query" },
+      context
+    );
+    timings.embedMs = Date.now() - started;
     const threshold = options?.threshold ?? this.defaultThreshold;
     const limit = options?.limit ?? 10;
-    const rpcFunction = options?.rpc ?? "match_documents";
+    const rpcFunction =
+      options?.rpc ??
+      (paginate
+        ? "match_documents_page"
+        : where
+        ? "match_documents_filtered"
+        : "match_documents");
+    const grouping =
+      options?.groupBySource === true
+        ? {}
+        : options?.groupBySource || undefined;
+
+    const mmr = options?.mmr === true ? {} : options?.mmr || undefined;
+
+    if (mmr?.lambda !== undefined && (mmr.lambda < 0 || mmr.lambda > 1)) {
+      throw new ValidationError("mmr.lambda must be between 0 and 1", "mmr");
+    }
+
+    const rerank = options?.rerank === true ? {} : options?.rerank || undefined;
+    const reranker = rerank && (rerank.reranker ?? this.reranker);
+
+    if (rerank && !reranker) {
+      throw new ConfigurationError(
+        "No reranker configured. Pass rerank.reranker or set SupabaseAIOptions.reranker."
+      );
+    }
+
+    // Pages must keep the RPC's order for the cursor to hold
+    if (
+      paginate &&
+      (grouping ||
+        mmr ||
+        rerank ||
+        (options?.orderBy && options.orderBy !== "similarity"))
+    ) {
+      throw new ValidationError(
+        "Pagination cannot be combined with groupBySource, mmr, rerank or orderBy",
+        "paginate"
+      );
+    }
 
     const rpcParams: any = {
       query_embedding: queryEmbedding[0],
       match_threshold: threshold,
-      match_count: limit,
+      // One extra row tells whether another page follows
+      match_count: paginate
+        ? limit + 1
+        : Math.max(
+            grouping ? grouping.candidates ?? limit * 5 : limit,
+            mmr ? mmr.fetchK ?? limit * 4 : limit,
+            rerank
+              ? rerank.candidates ??
+                  Math.max(limit, Math.min(limit * 4, MAX_RERANK_CANDIDATES))
+              : limit
+          ),
       table_name: table,
     };
 
-    if (options?.filters) {
-      rpcParams.filters = options.filters;
+    if (after) {
+      rpcParams.after_similarity = after.similarity;
+      rpcParams.after_id = after.id;
     }
 
-    if (options?.metadata) {
-      rpcParams.metadata_filter = options.metadata;
+    // Omitted for cosine so functions without a metric parameter keep working
+    if (metric !== "cosine") {
+      rpcParams.metric = metric;
     }
 
+    if (settings) {
+      rpcParams.search_settings = settings;
+    }
+
+    if (where) {
+      rpcParams.filter = where;
+    } else if (options?.filters) {
+      rpcParams.filters = options.filters;
+    }
+
+    started = Date.now();
+    // Only the RPC is wrapped; reranker and provider errors keep their type
+    let response: { data: any; error: any };
     try {
-      const { data, error } = await this.supabase.rpc(rpcFunction, rpcParams);
+      response = await this.supabase.rpc(rpcFunction, rpcParams);
+    } catch (error: any) {
+      throw new DatabaseError(
+        `Search operation failed: ${error.message}`,
+        error
+      );
+    }
+    const { data, error } = response;
+    timings.rpcMs = Date.now() - started;
 
-      if (error) {
-        throw new DatabaseError(`Search failed: ${error.message}`, error);
-      }
+    if (error) {
+      throw new DatabaseError(`Search failed: ${error.message}`, error);
+    }
 
-      let results = data ?? [];
+    started = Date.now();
 
-      if (options?.select) {
-        const selectFields = options.select.split(",").map((f) => f.trim());
-        results = results.map((item: any) => {
-          const filtered: any = {};
-          selectFields.forEach((field) => {
-            if (item[field] !== undefined) {
-              filtered[field] = item[field];
-            }
-          });
-          return filtered;
+    let results = data ?? [];
+    let nextCursor: string | null = null;
+
+    if (paginate && results.length > limit) {
+      results = results.slice(0, limit);
+      const last = results[limit - 1];
+      nextCursor = encodeCursor({
+        similarity: last.similarity ?? 0,
+        id: last.id,
+      });
+    }
+
+    // Reranking comes first. With MMR or grouping it scores every candidate,
+    // and the later step makes the final cut.
+    if (reranker) {
+      results = await this.rerankResults(
+        query,
+        results,
+        reranker,
+        mmr || grouping ? results.length : rerank?.topN ?? limit
+      );
+    }
+
+    // With grouping, MMR orders every candidate so that the groups picked
+    // afterwards are diverse
+    if (mmr) {
+      results = await this.applyMmr(
+        results,
+        queryEmbedding[0],
+        table,
+        grouping ? results.length : Math.min(rerank?.topN ?? limit, limit),
+        mmr.lambda,
+        metric
+      );
+    }
+
+    if (grouping) {
+      results = await this.groupBySource(results, table, limit, grouping);
+    }
+
+    if (options?.select) {
+      const selectFields = options.select.split(",").map((f) => f.trim());
+      if (grouping) {
+        selectFields.push(...GROUP_FIELDS);
+      }
+      results = results.map((item: any) => {
+        const filtered: any = {};
+        selectFields.forEach((field) => {
+          if (item[field] !== undefined) {
+            filtered[field] = item[field];
+          }
         });
+        return filtered;
+      });
+    }
+
+    if (options?.orderBy && options.orderBy !== "similarity") {
+      results.sort((a: any, b: any) => {
+        const aVal = a[options.orderBy!];
+        const bVal = b[options.orderBy!];
+        return aVal > bVal ? 1 : -1;
+      });
+    }
+
+    if (options?.includeDistance) {
+      results = results.map((item: any) => ({
+        ...item,
+        similarity: item.similarity ?? 0,
+      }));
+    }
+
+    timings.postProcessMs = Date.now() - started;
+    return paginate ? { results, nextCursor } : results;
+  }
+
+  private async rerankResults(
+    query: string,
+    candidates: SearchResult[],
+    reranker: Reranker,
+    topN: number
+  ): Promise<SearchResult[]> {
+    if (candidates.length === 0) {
+      return candidates;
+    }
+
+    const ranked = await reranker.rerank(
+      query,
+      candidates.map((candidate) => candidate.content),
+      { topN }
+    );
+
+    return ranked.slice(0, topN).map(({ index, score }) => ({
+      ...candidates[index],
+      rerankScore: score,
+    }));
+  }
+
+  // Re-ranks candidates by maximal marginal relevance. Candidate embeddings
+  // come from the rows themselves when the RPC returns them, otherwise they
+  // are fetched by id.
+  private async applyMmr(
+    candidates: SearchResult[],
+    queryEmbedding: number[],
+    table: string,
+    k: number,
+    lambda: number | undefined,
+    metric: DistanceMetric
+  ): Promise<SearchResult[]> {
+    if (candidates.length === 0) {
+      return candidates;
+    }
+
+    const embeddings = new Map<string, number[]>();
+    for (const candidate of candidates) {
+      if (candidate.embedding !== undefined) {
+        embeddings.set(candidate.id, parseVector(candidate.embedding));
       }
+    }
 
-      if (options?.orderBy && options.orderBy !== "similarity") {
-        results.sort((a: any, b: any) => {
-          const aVal = a[options.orderBy!];
-          const bVal = b[options.orderBy!];
-          return aVal > bVal ? 1 : -1;
-        });
+    const missing = candidates
+      .filter((candidate) => !embeddings.has(candidate.id))
+      .map((candidate) => candidate.id);
+    if (missing.length > 0) {
+      const rows = await this.selectIn(
+        table,
+        "id, embedding",
+        "id",
+        missing,
+        100
+      );
+      for (const row of rows) {
+        embeddings.set(row.id, parseVector(row.embedding));
       }
+    }
 
-      if (options?.includeDistance) {
-        results = results.map((item: any) => ({
-          ...item,
-          similarity: item.similarity ?? 0,
-        }));
+    // Rows whose embedding could not be found can't be compared; drop them
+    const ranked = candidates.filter((candidate) =>
+      embeddings.has(candidate.id)
+    );
+    const order = maximalMarginalRelevance(
+      queryEmbedding,
+      ranked.map((candidate) => embeddings.get(candidate.id)!),
+      k,
+      lambda,
+      metric,
+      rerankRelevance(ranked)
+    );
+
+    return order.map((index) => ranked[index]);
+  }
+
+  // Runs vector and full-text retrieval side by side and fuses the two
+  // rankings; each result reports both component scores
+  async hybridSearch(
+    query: string,
+    options?: HybridSearchOptions
+  ): Promise<HybridSearchResult[]> {
+    const table = this.resolveTable(options?.table);
+    const limit = options?.limit ?? 10;
+
+    return this.hooks.run(
+      "search",
+      { operation: "hybridSearch", table, query, limit },
+      (id) => this.runHybridSearch(table, query, limit, options, id),
+      (results) => ({ results: results.length })
+    );
+  }
+
+  private async runHybridSearch(
+    table: string,
+    query: string,
+    limit: number,
+    options: HybridSearchOptions | undefined,
+    id: string
+  ): Promise<HybridSearchResult[]> {
+    const [vectorHits, textHits] = await Promise.all([
+      this.observedSearch(
+        query,
+        {
+          table,
+          limit: options?.vectorLimit ?? limit * 2,
+          ...(options?.threshold !== undefined && {
+            threshold: options.threshold,
+          }),
+          ...(options?.filters && { filters: options.filters }),
+          ...(options?.metadata && { metadata: options.metadata }),
+          ...(options?.where && { where: options.where }),
+          ...(options?.metric && { metric: options.metric }),
+          ...(options?.tuning && { tuning: options.tuning }),
+          ...(options?.exact && { exact: options.exact }),
+          ...(options?.vectorRpc && { rpc: options.vectorRpc }),
+          ...(options?.usageTags && { usageTags: options.usageTags }),
+        },
+        id
+      ) as Promise<SearchResult[]>,
+      this.textSearch(query, table, options?.textLimit ?? limit * 2, options),
+    ]);
+
+    return fuseResults(vectorHits, textHits, {
+      ...(options?.fusion && { method: options.fusion }),
+      ...(options?.weights && { weights: options.weights }),
+      ...(options?.rrfK !== undefined && { rrfK: options.rrfK }),
+    }).slice(0, limit);
+  }
+
+  private async textSearch(
+    query: string,
+    table: string,
+    limit: number,
+    options?: HybridSearchOptions
+  ): Promise<SearchResult[]> {
+    const rpcParams: any = {
+      search_text: query,
+      match_count: limit,
+      table_name: table,
+      language: options?.language ?? "english",
+    };
+    const where = this.compileWhere(options);
+
+    if (where) {
+      rpcParams.filter = where;
+    } else {
+      if (options?.filters) {
+        rpcParams.filters = options.filters;
       }
 
-      return results;
-    } catch (error: any) {
-      if (error instanceof DatabaseError) {
-        throw error;
+      if (options?.metadata) {
+        rpcParams.metadata_filter = options.metadata;
       }
+    }
+
+    const { data, error } = await this.supabase.rpc(
+      options?.textRpc ?? "match_documents_text",
+      rpcParams
+    );
+
+    if (error) {
+      throw new DatabaseError(`Text search failed: ${error.message}`, error);
+    }
+
+    return data ?? [];
+  }
+
+  // Compiles `where`, together with any `filters` and `metadata`, for the
+  // filter-aware RPCs. Returns undefined when `where` isn't used.
+  private compileWhere(
+    options?: {
+      where?: Filter;
+      filters?: Record<string, any>;
+      metadata?: Record<string, any>;
+    },
+    includeLegacy = false
+  ): CompiledFilter | undefined {
+    if (!options?.where) {
+      const legacy =
+        includeLegacy && legacyFilter(options?.filters, options?.metadata);
+      return legacy ? compileFilter(legacy) : undefined;
+    }
+
+    const legacy = legacyFilter(options.filters, options.metadata);
+    return compileFilter(
+      legacy ? { and: [options.where, legacy] } : options.where
+    );
+  }
+
+  // Collapses hits to the best chunk per source, then attaches the parent
+  // rows and neighbouring chunks that were asked for
+  private async groupBySource(
+    hits: SearchResult[],
+    table: string,
+    limit: number,
+    options: GroupBySourceOptions
+  ): Promise<GroupedSearchResult[]> {
+    const groups = groupHitsBySource(hits).slice(0, limit);
+    const neighbors = options.neighbors ?? 0;
+
+    const [sources, contexts] = await Promise.all([
+      options.includeSource
+        ? this.getSources(
+            groups.map((group) => group.source_id),
+            options.sourcesTable ?? defaultSourcesTable(table)
+          )
+        : undefined,
+      neighbors > 0
+        ? Promise.all(
+            groups.map((group) => this.getNeighbors(table, group, neighbors))
+          )
+        : undefined,
+    ]);
+
+    return groups.map((group, index) => ({
+      ...group,
+      ...(sources && {
+        source: sources.find((source) => source.id === group.source_id) ?? null,
+      }),
+      ...(contexts && { context: contexts[index] }),
+    }));
+  }
+
+  // Fetches parent rows from the sources table
+  async getSources(
+    ids: string[],
+    table: string = defaultSourcesTable(this.defaultTable)
+  ): Promise<SourceDocument[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from(table)
+      .select("*")
+      .in("id", ids);
+
+    if (error) {
       throw new DatabaseError(
-        `Search operation failed: ${error.message}`,
+        `Failed to fetch sources: ${error.message}`,
+        error
+      );
+    }
+
+    return (data as SourceDocument[] | null) ?? [];
+  }
+
+  private async getNeighbors(
+    table: string,
+    hit: GroupedSearchResult,
+    neighbors: number
+  ): Promise<SearchResult[]> {
+    const chunkIndex = getChunkIndex(hit);
+    if (chunkIndex === undefined) {
+      return [hit];
+    }
+
+    const { data, error } = await this.supabase
+      .from(table)
+      .select("id, content, metadata")
+      .eq("metadata->>source_id", hit.source_id)
+      .gte("metadata->chunk_index", chunkIndex - neighbors)
+      .lte("metadata->chunk_index", chunkIndex + neighbors);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to fetch neighboring chunks: ${error.message}`,
         error
       );
     }
+
+    return ((data as SearchResult[] | null) ?? []).sort(
+      (a, b) => (getChunkIndex(a) ?? 0) - (getChunkIndex(b) ?? 0)
+    );
   }
 
-  async similarity(text1: string, text2: string): Promise<number> {
+  async get(
+    ids: string | string[],
+    options?: GetOptions
+  ): Promise<SearchResult[]> {
+    const table = this.resolveTable(options?.table);
+    const idArray = Array.isArray(ids) ? ids : [ids];
+
+    if (idArray.length === 0) {
+      return [];
+    }
+
+    const query = this.supabase
+      .from(table)
+      .select(options?.select ?? "*")
+      .in("id", idArray);
+    const { data, error } = await this.applyFilters(query, options);
+
+    if (error) {
+      throw new DatabaseError(`Get failed: ${error.message}`, error);
+    }
+
+    return (data as any[] | null) ?? [];
+  }
+
+  async delete(options: DeleteOptions): Promise<DeleteResult> {
+    const table = this.resolveTable(options.table);
+    const hasFilters =
+      Object.keys(options.filters ?? {}).length > 0 ||
+      Object.keys(options.metadata ?? {}).length > 0;
+
+    // Refuse to delete every row of the table by accident
+    if (!options.ids && !hasFilters) {
+      throw new ValidationError(
+        "delete requires ids, filters or metadata to select rows"
+      );
+    }
+
+    if (options.ids?.length === 0) {
+      return { deleted: 0 };
+    }
+
+    let query: any = this.supabase.from(table).delete({ count: "exact" });
+    if (options.ids) {
+      query = query.in("id", options.ids);
+    }
+    const { error, count } = await this.applyFilters(query, options);
+
+    if (error) {
+      throw new DatabaseError(`Delete failed: ${error.message}`, error);
+    }
+
+    return { deleted: count ?? 0 };
+  }
+
+  // Resolves to the updated row, or null when no row has the given id.
+  // The content is only re-embedded when it differs from the stored content.
+  async update(
+    id: string,
+    data: UpdateData,
+    options?: UpdateOptions
+  ): Promise<SearchResult | null> {
+    const table = this.resolveTable(options?.table);
+    const record: Record<string, any> = { ...data };
+    delete record.id;
+
+    if (data.content !== undefined) {
+      const { data: existing, error } = await this.supabase
+        .from(table)
+        .select("content")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) {
+        throw new DatabaseError(`Update failed: ${error.message}`, error);
+      }
+
+      if (!existing) {
+        return null;
+      }
+
+      if ((existing as any).content !== data.content) {
+        const [embedding] = await this.usage.track(
+          this.usageDetails("update", table, options),
+          (tally) =>
+            this.embed(
+              data.content,
+              { inputType: "document" },
+              { operation: "update", table, tally }
+            )
+        );
+        record.embedding = embedding;
+
+        if (options?.hashColumn) {
+          record[options.hashColumn] = await hashContent(data.content);
+        }
+      }
+    }
+
+    const { data: updated, error } = await this.supabase
+      .from(table)
+      .update(record)
+      .eq("id", id)
+      .select();
+
+    if (error) {
+      throw new DatabaseError(`Update failed: ${error.message}`, error);
+    }
+
+    return updated?.[0] ?? null;
+  }
+
+  private resolveTable(table?: string): string {
+    const resolved = table ?? this.defaultTable;
+
+    if (!resolved) {
+      throw new ValidationError(
+        "Table name is required. Provide either options.table or set defaultTable in constructor."
+      );
+    }
+
+    return resolved;
+  }
+
+  // Maps tuning options to the search_settings the RPC applies with SET LOCAL
+  private searchSettings(
+    options?: SearchOptions
+  ): Record<string, number | string | boolean> | undefined {
+    const tuning = options?.tuning;
+    const settings: Record<string, number | string | boolean> = {};
+
+    for (const [key, name] of [
+      ["efSearch", "ef_search"],
+      ["probes", "probes"],
+    ] as const) {
+      const value = tuning?.[key];
+      if (value === undefined) continue;
+      if (!Number.isInteger(value) || value < 1) {
+        throw new ValidationError(
+          `tuning.${key} must be a positive integer`,
+          `tuning.${key}`
+        );
+      }
+      settings[name] = value;
+    }
+
+    if (tuning?.iterativeScan !== undefined) {
+      if (
+        !["off", "relaxed_order", "strict_order"].includes(tuning.iterativeScan)
+      ) {
+        throw new ValidationError(
+          "tuning.iterativeScan must be off, relaxed_order or strict_order",
+          "tuning.iterativeScan"
+        );
+      }
+      settings.iterative_scan = tuning.iterativeScan;
+    }
+
+    if (options?.exact) {
+      settings.exact = true;
+    }
+
+    return Object.keys(settings).length > 0 ? settings : undefined;
+  }
+
+  private resolveMetric(metric?: DistanceMetric): DistanceMetric {
+    const resolved = metric ?? this.metric;
+
+    if (!(resolved in METRICS)) {
+      throw new ValidationError(
+        `Unknown distance metric "${resolved}". Use cosine, inner_product or l2.`,
+        "metric"
+      );
+    }
+
+    return resolved;
+  }
+
+  // Applies the same column equality and metadata containment semantics
+  // that the search RPC uses for `filters` and `metadata`
+  private applyFilters<Q extends { eq: any; contains: any }>(
+    query: Q,
+    options?: FilterOptions
+  ): Q {
+    let filtered: any = query;
+
+    for (const [column, value] of Object.entries(options?.filters ?? {})) {
+      filtered = filtered.eq(column, value);
+    }
+
+    if (options?.metadata && Object.keys(options.metadata).length > 0) {
+      filtered = filtered.contains("metadata", options.metadata);
+    }
+
+    return filtered;
+  }
+
+  // Uses the client's metric unless one is given, so scores compare with
+  // search() similarities
+  async similarity(
+    text1: string,
+    text2: string,
+    metric?: DistanceMetric
+  ): Promise<number> {
+    const resolved = this.resolveMetric(metric);
     const embeddings = await this.create([text1, text2]);
-    return cosineSimilarity(embeddings[0], embeddings[1]);
+    return resolved === "cosine"
+      ? cosineSimilarity(embeddings[0], embeddings[1])
+      : vectorSimilarity(embeddings[0], embeddings[1], resolved);
   }
 
   async cosineSimilarity(
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { estimateTokens, mapWithConcurrency, packBatches } from "./batching";
+
+describe("packBatches", () => {
+  it("should bound batches by item count", () => {
+    expect(packBatches(["a", "b", "c"], { maxItems: 2 })).toEqual([
+      [0, 1],
+      [2],
+    ]);
+  });
+
+  it("should bound batches by estimated tokens", () => {
+    const texts = ["aaaa", "aaaa", "aaaaaaaa", "a"];
+
+    expect(
+      packBatches(texts, {
+        maxItems: 10,
+        maxTokens: 2,
+        estimateTokens: (text) => text.length / 4,
+      })
+    ).toEqual([[0, 1], [2], [3]]);
+  });
+
+  it("should give oversized inputs a batch of their own", () => {
+    expect(
+      packBatches(["a".repeat(100), "b"], { maxItems: 10, maxTokens: 5 })
+    ).toEqual([[0], [1]]);
+  });
+
+  it("should return no batches for no input", () => {
+    expect(packBatches([], { maxItems: 10 })).toEqual([]);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("should estimate roughly four characters per token", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(estimateTokens("abc")).toBe(1);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("should preserve result order", async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return ms;
+    });
+
+    expect(results).toEqual([30, 10, 20]);
+  });
+
+  it("should limit the number of calls in flight", async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it("should stop scheduling after a failure", async () => {
+    const calls: number[] = [];
+
+    await expect(
+      mapWithConcurrency([1, 2, 3], 1, async (value) => {
+        calls.push(value);
+        if (value === 1) throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    expect(calls).toEqual([1]);
+  });
+});
@@ -0,0 +1,77 @@
+export interface PackBatchesOptions {
+  maxItems: number;
+  maxTokens?: number;
+  estimateTokens?: (text: string) => number;
+}
+
+// Rough heuristic for English text with BPE tokenizers (~4 characters/token)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Groups input indices into consecutive batches bounded by item count and
+// estimated tokens. An input larger than maxTokens gets a batch of its own.
+export function packBatches(
+  texts: string[],
+  options: PackBatchesOptions
+): number[][] {
+  const countTokens = options.estimateTokens ?? estimateTokens;
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let currentTokens = 0;
+
+  texts.forEach((text, index) => {
+    const tokens = countTokens(text);
+    const exceedsTokens =
+      options.maxTokens !== undefined &&
+      currentTokens + tokens > options.maxTokens;
+
+    if (
+      current.length > 0 &&
+      (current.length >= options.maxItems || exceedsTokens)
+    ) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+
+    current.push(index);
+    currentTokens += tokens;
+  });
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+// Like Promise.all(items.map(fn)) with at most `concurrency` calls in flight.
+// Results keep the order of `items`; the first rejection stops new calls.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+
+  return results;
+}
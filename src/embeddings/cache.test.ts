@@ -0,0 +1,212 @@
+import { describe, it, expect, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  CachedEmbeddingProvider,
+  InMemoryEmbeddingCache,
+  SupabaseEmbeddingCache,
+  parseVector,
+} from "./cache";
+import { EmbeddingsClient } from "./EmbeddingsClient";
+import { HashEmbeddingProvider } from "./providers";
+import { DatabaseError } from "../types/errors";
+import type { EmbeddingProvider } from "../types";
+
+function createProvider(): EmbeddingProvider {
+  return {
+    createEmbedding: vi
+      .fn()
+      .mockImplementation(async (input: string[]) =>
+        input.map((text) => [text.length])
+      ),
+    getModel: () => "model-a",
+    getDimensions: () => 1,
+  };
+}
+
+describe("InMemoryEmbeddingCache", () => {
+  it("should return stored entries and undefined for misses", async () => {
+    const cache = new InMemoryEmbeddingCache();
+    await cache.set([{ key: "a", embedding: [1] }]);
+
+    expect(await cache.get(["a", "b"])).toEqual([[1], undefined]);
+  });
+
+  it("should evict the least recently used entry", async () => {
+    const cache = new InMemoryEmbeddingCache(2);
+    await cache.set([
+      { key: "a", embedding: [1] },
+      { key: "b", embedding: [2] },
+    ]);
+    await cache.get(["a"]);
+    await cache.set([{ key: "c", embedding: [3] }]);
+
+    expect(await cache.get(["a", "b", "c"])).toEqual([[1], undefined, [3]]);
+    expect(cache.size).toBe(2);
+  });
+});
+
+describe("SupabaseEmbeddingCache", () => {
+  it("should read entries and parse pgvector strings", async () => {
+    const query = {
+      select: vi.fn().mockReturnThis(),
+      in: vi.fn().mockResolvedValue({
+        data: [{ key: "b", embedding: "[0.5,1]" }],
+        error: null,
+      }),
+    };
+    const supabase = {
+      from: vi.fn().mockReturnValue(query),
+    } as unknown as SupabaseClient;
+
+    const cache = new SupabaseEmbeddingCache(supabase, "cache_table");
+    const result = await cache.get(["a", "b"]);
+
+    expect(supabase.from).toHaveBeenCalledWith("cache_table");
+    expect(query.in).toHaveBeenCalledWith("key", ["a", "b"]);
+    expect(result).toEqual([undefined, [0.5, 1]]);
+  });
+
+  it("should upsert entries on the key", async () => {
+    const upsert = vi.fn().mockResolvedValue({ error: null });
+    const supabase = {
+      from: vi.fn().mockReturnValue({ upsert }),
+    } as unknown as SupabaseClient;
+
+    await new SupabaseEmbeddingCache(supabase).set([
+      { key: "a", embedding: [1] },
+    ]);
+
+    expect(supabase.from).toHaveBeenCalledWith("embedding_cache");
+    expect(upsert).toHaveBeenCalledWith([{ key: "a", embedding: [1] }], {
+      onConflict: "key",
+    });
+  });
+
+  it("should throw DatabaseError on failures", async () => {
+    const supabase = {
+      from: vi.fn().mockReturnValue({
+        upsert: vi.fn().mockResolvedValue({ error: { message: "denied" } }),
+      }),
+    } as unknown as SupabaseClient;
+
+    await expect(
+      new SupabaseEmbeddingCache(supabase).set([{ key: "a", embedding: [1] }])
+    ).rejects.toThrow(DatabaseError);
+  });
+});
+
+describe("parseVector", () => {
+  it("should accept strings and arrays", () => {
+    expect(parseVector("[1,2]")).toEqual([1, 2]);
+    expect(parseVector([1, 2])).toEqual([1, 2]);
+  });
+});
+
+describe("CachedEmbeddingProvider", () => {
+  it("should only embed texts that are not cached", async () => {
+    const inner = createProvider();
+    const provider = new CachedEmbeddingProvider(
+      inner,
+      new InMemoryEmbeddingCache()
+    );
+
+    await provider.createEmbedding(["one", "three"]);
+    const result = await provider.createEmbedding(["three", "four"]);
+
+    expect(result).toEqual([[5], [4]]);
+    expect(inner.createEmbedding).toHaveBeenLastCalledWith(["four"], undefined);
+    expect(provider.getStats()).toEqual({ hits: 1, misses: 3 });
+  });
+
+  it("should treat whitespace-only differences as the same content", async () => {
+    const inner = createProvider();
+    const provider = new CachedEmbeddingProvider(
+      inner,
+      new InMemoryEmbeddingCache()
+    );
+
+    await provider.createEmbedding("hello world");
+    await provider.createEmbedding("  hello   world ");
+
+    expect(inner.createEmbedding).toHaveBeenCalledTimes(1);
+  });
+
+  it("should embed repeated inputs once", async () => {
+    const inner = createProvider();
+    const provider = new CachedEmbeddingProvider(
+      inner,
+      new InMemoryEmbeddingCache()
+    );
+
+    const result = await provider.createEmbedding(["a", "a"]);
+
+    expect(result).toEqual([[1], [1]]);
+    expect(inner.createEmbedding).toHaveBeenCalledWith(["a"], undefined);
+  });
+
+  it("should only report usage for cache misses", async () => {
+    const inner = {
+      ...createProvider(),
+      createEmbeddingWithUsage: vi
+        .fn()
+        .mockImplementation(async (input: string[]) => ({
+          embeddings: input.map((text) => [text.length]),
+          usage: { tokens: input.length * 10 },
+        })),
+    };
+    const provider = new CachedEmbeddingProvider(
+      inner,
+      new InMemoryEmbeddingCache()
+    );
+
+    await provider.createEmbeddingWithUsage(["a"]);
+    const result = await provider.createEmbeddingWithUsage(["a", "bb"]);
+    const cached = await provider.createEmbeddingWithUsage(["bb"]);
+
+    expect(result).toEqual({ embeddings: [[1], [2]], usage: { tokens: 10 } });
+    expect(cached.usage).toEqual({ tokens: 0 });
+  });
+
+  it("should key entries by model and input type", async () => {
+    const inner = createProvider();
+    const provider = new CachedEmbeddingProvider(
+      inner,
+      new InMemoryEmbeddingCache()
+    );
+
+    await provider.createEmbedding("text", { inputType: "query" });
+    await provider.createEmbedding("text", { inputType: "document" });
+    await provider.createEmbedding("text", {
+      inputType: "document",
+      model: "model-b",
+    });
+
+    expect(inner.createEmbedding).toHaveBeenCalledTimes(3);
+  });
+
+  it("should serve store, search and similarity from the cache", async () => {
+    const inner = new HashEmbeddingProvider();
+    const spy = vi.spyOn(inner, "createEmbedding");
+    const provider = new CachedEmbeddingProvider(
+      inner,
+      new InMemoryEmbeddingCache()
+    );
+    const client = new EmbeddingsClient({
+      supabaseClient: {
+        from: () => ({ insert: async () => ({ error: null }) }),
+        rpc: async () => ({ data: [], error: null }),
+      } as unknown as SupabaseClient,
+      provider,
+    });
+
+    await client.store([{ content: "cached text" }]);
+    await client.store([{ content: "cached text" }]);
+    await client.search("query text");
+    await client.search("query text");
+    await client.similarity("a", "b");
+    await client.similarity("a", "b");
+
+    expect(spy).toHaveBeenCalledTimes(3);
+    expect(provider.getStats()).toEqual({ hits: 4, misses: 4 });
+  });
+});
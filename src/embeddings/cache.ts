@@ -0,0 +1,226 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  CacheStats,
+  CreateOptions,
+  EmbeddingCacheEntry,
+  EmbeddingCacheStore,
+  EmbeddingProvider,
+  EmbeddingResponse,
+  EmbeddingUsage,
+  Tokenizer,
+} from "../types";
+import { DatabaseError } from "../types/errors";
+import { hashContent } from "./hashing";
+import { embedWithUsage } from "./usage";
+
+export class InMemoryEmbeddingCache implements EmbeddingCacheStore {
+  // Map iteration order doubles as recency order: oldest entries come first
+  private entries = new Map<string, number[]>();
+
+  constructor(private maxEntries: number = 10_000) {}
+
+  async get(keys: string[]): Promise<(number[] | undefined)[]> {
+    return keys.map((key) => {
+      const embedding = this.entries.get(key);
+      if (embedding) {
+        this.entries.delete(key);
+        this.entries.set(key, embedding);
+      }
+      return embedding;
+    });
+  }
+
+  async set(entries: EmbeddingCacheEntry[]): Promise<void> {
+    for (const { key, embedding } of entries) {
+      this.entries.delete(key);
+      this.entries.set(key, embedding);
+    }
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export class SupabaseEmbeddingCache implements EmbeddingCacheStore {
+  constructor(
+    private supabase: SupabaseClient,
+    private table: string = "embedding_cache"
+  ) {}
+
+  async get(keys: string[]): Promise<(number[] | undefined)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .select("key, embedding")
+      .in("key", keys);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to read embedding cache: ${error.message}`,
+        error
+      );
+    }
+
+    const found = new Map<string, number[]>(
+      (data ?? []).map((row: any) => [row.key, parseVector(row.embedding)])
+    );
+    return keys.map((key) => found.get(key));
+  }
+
+  async set(entries: EmbeddingCacheEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from(this.table)
+      .upsert(entries, { onConflict: "key" });
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to write embedding cache: ${error.message}`,
+        error
+      );
+    }
+  }
+}
+
+// pgvector columns come back from PostgREST as "[0.1,0.2,...]" strings
+export function parseVector(value: unknown): number[] {
+  if (typeof value === "string") {
+    return JSON.parse(value);
+  }
+  return value as number[];
+}
+
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  private stats: CacheStats = { hits: 0, misses: 0 };
+
+  constructor(
+    private provider: EmbeddingProvider,
+    private store: EmbeddingCacheStore
+  ) {}
+
+  get name(): string | undefined {
+    return this.provider.name;
+  }
+
+  get maxBatchSize(): number | undefined {
+    return this.provider.maxBatchSize;
+  }
+
+  get maxBatchTokens(): number | undefined {
+    return this.provider.maxBatchTokens;
+  }
+
+  get maxInputTokens(): number | undefined {
+    return this.provider.maxInputTokens;
+  }
+
+  get tokenizer(): Tokenizer | undefined {
+    return this.provider.tokenizer;
+  }
+
+  async createEmbedding(
+    input: string | string[],
+    options?: CreateOptions
+  ): Promise<number[][]> {
+    return (await this.createEmbeddingWithUsage(input, options)).embeddings;
+  }
+
+  // Cache hits cost nothing, so usage only covers the embedded misses
+  async createEmbeddingWithUsage(
+    input: string | string[],
+    options?: CreateOptions
+  ): Promise<EmbeddingResponse> {
+    const inputArray = Array.isArray(input) ? input : [input];
+    const keys = await Promise.all(
+      inputArray.map((text) => this.cacheKey(text, options))
+    );
+    const cached = await this.store.get(keys);
+
+    // Embed each distinct uncached key once, even if repeated in the input
+    const missing = new Map<string, string>();
+    keys.forEach((key, index) => {
+      if (!cached[index] && !missing.has(key)) {
+        missing.set(key, inputArray[index]);
+      }
+    });
+
+    const computed = new Map<string, number[]>();
+    let usage: EmbeddingUsage = { tokens: 0 };
+    if (missing.size > 0) {
+      const missingKeys = Array.from(missing.keys());
+      const response = await embedWithUsage(
+        this.provider,
+        Array.from(missing.values()),
+        options
+      );
+      const vectors = response.embeddings;
+      usage = response.usage;
+      const entries = missingKeys.map((key, index) => ({
+        key,
+        embedding: vectors[index],
+      }));
+      entries.forEach(({ key, embedding }) => computed.set(key, embedding));
+      await this.store.set(entries);
+    }
+
+    this.stats.hits += inputArray.length - missing.size;
+    this.stats.misses += missing.size;
+
+    return {
+      embeddings: keys.map((key, index) => cached[index] ?? computed.get(key)!),
+      usage,
+    };
+  }
+
+  getModel(): string {
+    return this.provider.getModel();
+  }
+
+  getDimensions(): number {
+    return this.provider.getDimensions();
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  resetStats(): void {
+    this.stats = { hits: 0, misses: 0 };
+  }
+
+  private async cacheKey(
+    text: string,
+    options?: CreateOptions
+  ): Promise<string> {
+    const model = options?.model ?? this.provider.getModel();
+    let dimensions: number | string;
+    try {
+      dimensions = this.provider.getDimensions();
+    } catch {
+      // Some providers only learn their dimensions from the first response
+      dimensions = "auto";
+    }
+    return [
+      model,
+      dimensions,
+      options?.inputType ?? "default",
+      await hashContent(text),
+    ].join(":");
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { decodeCursor, encodeCursor } from "./cursor";
+import { ValidationError } from "../types/errors";
+
+describe("search cursors", () => {
+  it("should round-trip the position exactly", () => {
+    const position = {
+      similarity: 0.8123456789012345,
+      id: "6f1c2d3e-0000-4000-8000-000000000001",
+    };
+    const cursor = encodeCursor(position);
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor)).toEqual(position);
+  });
+
+  it("should encode non-ASCII ids like Buffer's base64url", () => {
+    const position = { similarity: 0.5, id: "文書-é?>~" };
+    const cursor = encodeCursor(position);
+
+    expect(cursor).toBe(
+      Buffer.from(JSON.stringify({ s: 0.5, i: position.id })).toString(
+        "base64url"
+      )
+    );
+    expect(decodeCursor(cursor)).toEqual(position);
+  });
+
+  it("should reject malformed cursors", () => {
+    expect(() => decodeCursor("%%%")).toThrow(ValidationError);
+    expect(() =>
+      decodeCursor(Buffer.from('{"s":"high","i":1}').toString("base64url"))
+    ).toThrow(ValidationError);
+  });
+});
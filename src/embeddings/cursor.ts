@@ -0,0 +1,45 @@
+import type { SearchCursor } from "../types";
+import { ValidationError } from "../types/errors";
+
+// btoa/atob and TextEncoder rather than Buffer, so cursors work in browsers,
+// Deno and edge runtimes
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  );
+}
+
+// Cursors are opaque to callers: base64url JSON of the last row's position
+export function encodeCursor(cursor: SearchCursor): string {
+  return toBase64Url(JSON.stringify({ s: cursor.similarity, i: cursor.id }));
+}
+
+export function decodeCursor(value: string): SearchCursor {
+  try {
+    const { s, i } = JSON.parse(fromBase64Url(value));
+    if (typeof s === "number" && Number.isFinite(s) && typeof i === "string") {
+      return { similarity: s, id: i };
+    }
+  } catch {
+    // Fall through to the validation error
+  }
+
+  throw new ValidationError(
+    "Invalid cursor. Pass the nextCursor from a previous page.",
+    "cursor"
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { fuseResults } from "./fusion";
+
+const vectorHits = [
+  { id: "a", content: "A", similarity: 0.9 },
+  { id: "b", content: "B", similarity: 0.8 },
+];
+const textHits = [
+  { id: "c", content: "C", text_score: 0.6 },
+  { id: "b", content: "B", text_score: 0.4 },
+];
+
+describe("fuseResults", () => {
+  it("should fuse with reciprocal rank fusion by default", () => {
+    const results = fuseResults(vectorHits, textHits);
+
+    expect(results.map((result) => result.id)).toEqual(["b", "a", "c"]);
+    expect(results[0].score).toBeCloseTo(1 / 62 + 1 / 62);
+    expect(results[1].score).toBeCloseTo(1 / 61);
+  });
+
+  it("should report both component scores", () => {
+    const [b, a, c] = fuseResults(vectorHits, textHits);
+
+    expect(b).toMatchObject({ vector_score: 0.8, text_score: 0.4 });
+    expect(a).toMatchObject({ vector_score: 0.9, text_score: null });
+    expect(c).toMatchObject({ vector_score: null, text_score: 0.6 });
+  });
+
+  it("should apply weights and k to rrf", () => {
+    const results = fuseResults(vectorHits, textHits, {
+      weights: { vector: 0, text: 1 },
+      rrfK: 0,
+    });
+
+    expect(results[0]).toMatchObject({ id: "c", score: 1 });
+    expect(results[1]).toMatchObject({ id: "b", score: 0.5 });
+  });
+
+  it("should blend scores as a weighted average", () => {
+    const results = fuseResults(vectorHits, textHits, {
+      method: "weighted",
+      weights: { vector: 3, text: 1 },
+    });
+
+    expect(results.map((result) => result.id)).toEqual(["b", "a", "c"]);
+    expect(results[0].score).toBeCloseTo((3 * 0.8 + 0.4) / 4);
+    expect(results[1].score).toBeCloseTo((3 * 0.9) / 4);
+    expect(results[2].score).toBeCloseTo(0.6 / 4);
+  });
+
+  it("should return nothing when both legs are empty", () => {
+    expect(fuseResults([], [])).toEqual([]);
+  });
+});
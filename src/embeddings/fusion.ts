@@ -0,0 +1,64 @@
+import type { FusionMethod, HybridSearchResult, SearchResult } from "../types";
+
+export interface FusionOptions {
+  method?: FusionMethod;
+  weights?: { vector?: number; text?: number };
+  rrfK?: number;
+}
+
+// Merges the ranked vector and full-text hits by id. With "rrf" each list
+// contributes weight / (k + rank); with "weighted" the result is the
+// weighted average of both component scores, a missing leg counting as 0.
+export function fuseResults(
+  vectorHits: SearchResult[],
+  textHits: SearchResult[],
+  options: FusionOptions = {}
+): HybridSearchResult[] {
+  const method = options.method ?? "rrf";
+  const vectorWeight = options.weights?.vector ?? 1;
+  const textWeight = options.weights?.text ?? 1;
+  const k = options.rrfK ?? 60;
+
+  const merged = new Map<
+    string,
+    { row: SearchResult; vector?: [number, number]; text?: [number, number] }
+  >();
+
+  vectorHits.forEach((hit, index) => {
+    merged.set(hit.id, {
+      row: hit,
+      vector: [index + 1, hit.similarity ?? 0],
+    });
+  });
+
+  textHits.forEach((hit, index) => {
+    const entry = merged.get(hit.id);
+    const text: [number, number] = [index + 1, hit.text_score ?? 0];
+    if (entry) {
+      entry.text = text;
+    } else {
+      merged.set(hit.id, { row: hit, text });
+    }
+  });
+
+  const totalWeight = vectorWeight + textWeight || 1;
+
+  return [...merged.values()]
+    .map(({ row, vector, text }) => {
+      const score =
+        method === "rrf"
+          ? (vector ? vectorWeight / (k + vector[0]) : 0) +
+            (text ? textWeight / (k + text[0]) : 0)
+          : ((vector ? vectorWeight * vector[1] : 0) +
+              (text ? textWeight * text[1] : 0)) /
+            totalWeight;
+
+      return {
+        ...row,
+        score,
+        vector_score: vector ? vector[1] : null,
+        text_score: text ? text[1] : null,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
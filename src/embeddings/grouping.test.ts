@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { getChunkIndex, getSourceId, groupHitsBySource } from "./grouping";
+
+describe("grouping", () => {
+  it("should read source ids from columns before metadata", () => {
+    expect(getSourceId({ id: "1", content: "", source_id: "col" })).toBe("col");
+    expect(
+      getSourceId({ id: "1", content: "", metadata: { source_id: "meta" } })
+    ).toBe("meta");
+    expect(getSourceId({ id: "1", content: "" })).toBeUndefined();
+  });
+
+  it("should read chunk indexes, including zero", () => {
+    expect(
+      getChunkIndex({ id: "1", content: "", metadata: { chunk_index: 0 } })
+    ).toBe(0);
+  });
+
+  it("should keep the first hit per source and count the rest", () => {
+    const groups = groupHitsBySource([
+      { id: "1", content: "", metadata: { source_id: "A" } },
+      { id: "2", content: "", metadata: { source_id: "B" } },
+      { id: "3", content: "", metadata: { source_id: "A" } },
+      { id: "4", content: "" },
+    ]);
+
+    expect(
+      groups.map(({ id, source_id, matches }) => ({ id, source_id, matches }))
+    ).toEqual([
+      { id: "1", source_id: "A", matches: 2 },
+      { id: "2", source_id: "B", matches: 1 },
+      { id: "4", source_id: "4", matches: 1 },
+    ]);
+  });
+});
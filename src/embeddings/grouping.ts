@@ -0,0 +1,35 @@
+import type { GroupedSearchResult, SearchResult } from "../types";
+
+// Parent rows live next to their chunks: "documents" -> "documents_sources"
+export function defaultSourcesTable(table: string): string {
+  return `${table}_sources`;
+}
+
+// Chunks written by ingest() carry their position in metadata; a source_id
+// column takes precedence when the search RPC returns one
+export function getSourceId(hit: SearchResult): string | undefined {
+  return hit.source_id ?? hit.metadata?.source_id;
+}
+
+export function getChunkIndex(hit: SearchResult): number | undefined {
+  return hit.chunk_index ?? hit.metadata?.chunk_index;
+}
+
+// Keeps the first (best ranked) hit of each source. Hits without a source
+// form a group of their own.
+export function groupHitsBySource(hits: SearchResult[]): GroupedSearchResult[] {
+  const groups = new Map<string, GroupedSearchResult>();
+
+  for (const hit of hits) {
+    const sourceId = getSourceId(hit) ?? hit.id;
+    const group = groups.get(sourceId);
+
+    if (group) {
+      group.matches++;
+    } else {
+      groups.set(sourceId, { ...hit, source_id: sourceId, matches: 1 });
+    }
+  }
+
+  return [...groups.values()];
+}
@@ -0,0 +1,15 @@
+// Collapses insignificant differences (Unicode form, surrounding and repeated
+// whitespace) so equivalent content hashes to the same value
+export function normalizeContent(text: string): string {
+  return text.normalize("NFC").trim().replace(/\s+/g, " ");
+}
+
+export async function hashContent(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(normalizeContent(text))
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
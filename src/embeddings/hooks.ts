@@ -0,0 +1,90 @@
+import type {
+  AfterEmbedEvent,
+  AfterSearchEvent,
+  AfterStoreEvent,
+  EmbedEvent,
+  HookErrorEvent,
+  LifecycleHooks,
+  SearchEvent,
+  StoreEvent,
+} from "../types";
+
+interface StageEvents {
+  embed: { before: EmbedEvent; after: AfterEmbedEvent };
+  search: { before: SearchEvent; after: AfterSearchEvent };
+  store: { before: StoreEvent; after: AfterStoreEvent };
+}
+
+type Stage = keyof StageEvents;
+
+const HOOK_NAMES = {
+  embed: ["beforeEmbed", "afterEmbed"],
+  search: ["beforeSearch", "afterSearch"],
+  store: ["beforeStore", "afterStore"],
+} as const;
+
+let lastOperationId = 0;
+
+// Wraps calls in the before/after/onError hooks of every registered set
+export class HookRunner {
+  private hooks: LifecycleHooks[];
+
+  constructor(hooks?: LifecycleHooks | LifecycleHooks[]) {
+    this.hooks = hooks === undefined ? [] : [hooks].flat();
+  }
+
+  async run<S extends Stage, T>(
+    stage: S,
+    event: Omit<StageEvents[S]["before"], "id">,
+    call: (id: string) => Promise<T>,
+    // Fields the after event adds to the before event, besides durationMs
+    summarize: (
+      result: T
+    ) => Omit<
+      StageEvents[S]["after"],
+      keyof StageEvents[S]["before"] | "durationMs"
+    >
+  ): Promise<T> {
+    const before = {
+      ...event,
+      id: String(++lastOperationId),
+    } as StageEvents[S]["before"];
+    const [beforeHook, afterHook] = HOOK_NAMES[stage];
+    const start = Date.now();
+
+    this.emit(beforeHook, before);
+
+    let result: T;
+    try {
+      result = await call(before.id);
+    } catch (error) {
+      this.emit("onError", {
+        ...before,
+        stage,
+        durationMs: Date.now() - start,
+        error,
+      });
+      throw error;
+    }
+
+    this.emit(afterHook, {
+      ...before,
+      ...summarize(result),
+      durationMs: Date.now() - start,
+    });
+    return result;
+  }
+
+  private emit(
+    name: keyof LifecycleHooks,
+    event: StageEvents[Stage][keyof StageEvents[Stage]] | HookErrorEvent
+  ): void {
+    for (const hooks of this.hooks) {
+      try {
+        (hooks[name] as ((event: unknown) => void) | undefined)?.(event);
+      } catch {
+        // A failing observer must not fail the observed call
+      }
+    }
+  }
+}
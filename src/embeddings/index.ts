@@ -1,3 +1,4 @@
 export * from "./EmbeddingsClient";
 export * from "./providers";
+export * from "./registry";
 export * from "./utils";
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { maximalMarginalRelevance } from "./mmr";
+
+describe("maximalMarginalRelevance", () => {
+  const query = [1, 0.3];
+  const candidates = [
+    [1, 0.25], // most relevant
+    [1, 0.2], // near duplicate of the first
+    [0.5, 1], // less relevant but different
+  ];
+
+  it("should follow relevance order with lambda 1", () => {
+    expect(maximalMarginalRelevance(query, candidates, 3, 1)).toEqual([
+      0, 1, 2,
+    ]);
+  });
+
+  it("should skip near duplicates with a balanced lambda", () => {
+    expect(maximalMarginalRelevance(query, candidates, 2, 0.5)).toEqual([0, 2]);
+  });
+
+  it("should use the given relevance instead of query similarity", () => {
+    expect(
+      maximalMarginalRelevance(
+        query,
+        candidates,
+        2,
+        0.5,
+        "cosine",
+        [0.5, 0.4, 1]
+      )
+    ).toEqual([2, 0]);
+  });
+
+  it("should return at most the number of candidates", () => {
+    expect(maximalMarginalRelevance(query, candidates, 10)).toHaveLength(3);
+    expect(maximalMarginalRelevance(query, [], 5)).toEqual([]);
+  });
+
+  it("should treat zero vectors as unrelated", () => {
+    expect(
+      maximalMarginalRelevance(
+        query,
+        [
+          [0, 0],
+          [1, 0],
+        ],
+        2
+      )
+    ).toEqual([1, 0]);
+  });
+
+  it("should rank by the given metric", () => {
+    const scaled = [
+      [0.5, 0],
+      [2, 0],
+      [0, 3],
+    ];
+
+    // Same direction ties under cosine; the inner product prefers magnitude
+    expect(maximalMarginalRelevance([1, 0], scaled, 3, 1)).toEqual([0, 1, 2]);
+    expect(
+      maximalMarginalRelevance([1, 0], scaled, 3, 1, "inner_product")
+    ).toEqual([1, 0, 2]);
+  });
+});
@@ -0,0 +1,55 @@
+import type { DistanceMetric } from "../types";
+import { vectorSimilarity } from "../utils/vector-ops";
+
+const similarity = (a: number[], b: number[], metric: DistanceMetric) => {
+  const value = vectorSimilarity(a, b, metric);
+  // Zero vectors have no direction; treat them as unrelated
+  return Number.isNaN(value) ? 0 : value;
+};
+
+// Greedily picks k candidates, each maximizing
+//   lambda * sim(query, candidate) - (1 - lambda) * max sim(candidate, picked)
+// so lambda = 1 is plain relevance order and lambda = 0 is maximum diversity.
+// Returns indices into `candidates` in pick order. `relevance` replaces
+// sim(query, candidate), e.g. with reranker scores.
+export function maximalMarginalRelevance(
+  queryEmbedding: number[],
+  candidates: number[][],
+  k: number,
+  lambda: number = 0.5,
+  metric: DistanceMetric = "cosine",
+  relevance: number[] = candidates.map((candidate) =>
+    similarity(queryEmbedding, candidate, metric)
+  )
+): number[] {
+  // Highest similarity of each candidate to anything picked so far
+  const redundancy = candidates.map(() => -Infinity);
+  const remaining = new Set(candidates.map((_, index) => index));
+  const picked: number[] = [];
+
+  while (picked.length < k && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+
+    for (const index of remaining) {
+      const penalty = picked.length > 0 ? redundancy[index] : 0;
+      const score = lambda * relevance[index] - (1 - lambda) * penalty;
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    }
+
+    picked.push(best);
+    remaining.delete(best);
+
+    for (const index of remaining) {
+      redundancy[index] = Math.max(
+        redundancy[index],
+        similarity(candidates[best], candidates[index], metric)
+      );
+    }
+  }
+
+  return picked;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { classifyProviderError, parseRetryAfter } from "./errors";
+import {
+  AuthenticationError,
+  EmbeddingProviderError,
+  InputTooLongError,
+  RateLimitError,
+  TransientProviderError,
+} from "../../types/errors";
+
+function headers(values: Record<string, string>) {
+  return { get: (name: string) => values[name] ?? null };
+}
+
+describe("classifyProviderError", () => {
+  it("should classify rate limits and keep the retry delay", () => {
+    const error = classifyProviderError("openai", "slow down", {
+      status: 429,
+      retryAfterMs: 2000,
+    });
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.status).toBe(429);
+    expect((error as RateLimitError).retryAfterMs).toBe(2000);
+    expect(error.code).toBe("RATE_LIMIT_ERROR");
+  });
+
+  it("should classify authentication failures", () => {
+    expect(
+      classifyProviderError("openai", "bad key", { status: 401 })
+    ).toBeInstanceOf(AuthenticationError);
+    expect(
+      classifyProviderError("openai", "forbidden", { status: 403 })
+    ).toBeInstanceOf(AuthenticationError);
+  });
+
+  it("should classify inputs that are too long", () => {
+    const error = classifyProviderError(
+      "openai",
+      "This model's maximum context length is 8192 tokens",
+      { status: 400 }
+    );
+
+    expect(error).toBeInstanceOf(InputTooLongError);
+    expect(
+      classifyProviderError("x", "too large", { status: 413 })
+    ).toBeInstanceOf(InputTooLongError);
+  });
+
+  it("should classify server errors, timeouts and network failures as transient", () => {
+    expect(classifyProviderError("x", "oops", { status: 503 })).toBeInstanceOf(
+      TransientProviderError
+    );
+    expect(
+      classifyProviderError("x", "timeout", { status: 408 })
+    ).toBeInstanceOf(TransientProviderError);
+    expect(
+      classifyProviderError("x", "ECONNRESET", { network: true })
+    ).toBeInstanceOf(TransientProviderError);
+  });
+
+  it("should fall back to a generic EmbeddingProviderError", () => {
+    const error = classifyProviderError("x", "bad request", { status: 400 });
+
+    expect(error.constructor).toBe(EmbeddingProviderError);
+    expect(error.status).toBe(400);
+    expect(error.provider).toBe("x");
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should prefer retry-after-ms", () => {
+    expect(
+      parseRetryAfter(headers({ "retry-after-ms": "150", "retry-after": "5" }))
+    ).toBe(150);
+  });
+
+  it("should parse seconds", () => {
+    expect(parseRetryAfter(headers({ "retry-after": "3" }))).toBe(3000);
+  });
+
+  it("should parse HTTP dates", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+
+    expect(
+      parseRetryAfter(
+        headers({ "retry-after": "Mon, 01 Jan 2024 00:00:10 GMT" }),
+        now
+      )
+    ).toBe(10_000);
+  });
+
+  it("should return undefined without a usable header", () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter(headers({ "retry-after": "soon" }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  AuthenticationError,
+  EmbeddingProviderError,
+  InputTooLongError,
+  RateLimitError,
+  TransientProviderError,
+} from "../../types/errors";
+
+export interface ProviderErrorDetails {
+  status?: number | undefined;
+  retryAfterMs?: number | undefined;
+  // Connection failures and timeouts, where no response was received
+  network?: boolean;
+}
+
+const INPUT_TOO_LONG_PATTERN =
+  /maximum context length|too many tokens|input (is )?too long|exceeds the (maximum|max)/i;
+
+// Maps an HTTP status (or the lack of a response) to the most specific
+// EmbeddingProviderError subclass so callers can decide whether to retry.
+export function classifyProviderError(
+  provider: string,
+  message: string,
+  details: ProviderErrorDetails = {}
+): EmbeddingProviderError {
+  const { status, retryAfterMs } = details;
+
+  if (details.network) {
+    return new TransientProviderError(message, provider, status, retryAfterMs);
+  }
+
+  if (status === 429) {
+    return new RateLimitError(message, provider, status, retryAfterMs);
+  }
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, provider, status);
+  }
+
+  if (
+    status === 413 ||
+    ((status === 400 || status === 422) && INPUT_TOO_LONG_PATTERN.test(message))
+  ) {
+    return new InputTooLongError(message, provider, status);
+  }
+
+  if (status !== undefined && (status === 408 || status >= 500)) {
+    return new TransientProviderError(message, provider, status, retryAfterMs);
+  }
+
+  return new EmbeddingProviderError(message, provider, status);
+}
+
+// Reads `retry-after-ms` or `retry-after` (seconds or an HTTP date)
+export function parseRetryAfter(
+  headers: { get(name: string): string | null } | undefined,
+  now: number = Date.now()
+): number | undefined {
+  const retryAfterMs = headers?.get("retry-after-ms");
+  if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs));
+  }
+
+  const retryAfter = headers?.get("retry-after");
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
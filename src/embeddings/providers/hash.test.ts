@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { HashEmbeddingProvider } from "./hash";
+import { EmbeddingsClient } from "../EmbeddingsClient";
+import { providerRegistry } from "../registry";
+import { cosineSimilarity, magnitude } from "../../utils/vector-ops";
+import { ConfigurationError } from "../../types/errors";
+
+// Minimal in-memory stand-in for a table plus the match_documents RPC
+function createInMemorySupabase(): SupabaseClient {
+  const rows: any[] = [];
+
+  return {
+    from: () => ({
+      insert: async (batch: any[]) => {
+        rows.push(...batch);
+        return { error: null };
+      },
+    }),
+    rpc: async (_fn: string, params: any) => {
+      const data = rows
+        .map((row) => ({
+          id: row.id,
+          content: row.content,
+          metadata: row.metadata,
+          similarity: cosineSimilarity(row.embedding, params.query_embedding),
+        }))
+        .filter((row) => row.similarity > params.match_threshold)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, params.match_count);
+      return { data, error: null };
+    },
+  } as unknown as SupabaseClient;
+}
+
+describe("HashEmbeddingProvider", () => {
+  const provider = new HashEmbeddingProvider();
+
+  it("should return vectors with the configured dimensions", async () => {
+    const custom = new HashEmbeddingProvider("hash", { dimensions: 64 });
+    const [vector] = await custom.createEmbedding("hello world");
+
+    expect(vector).toHaveLength(64);
+    expect(custom.getDimensions()).toBe(64);
+    expect(magnitude(vector)).toBeCloseTo(1);
+  });
+
+  it("should be deterministic", async () => {
+    const [a] = await provider.createEmbedding("The quick brown fox");
+    const [b] = await new HashEmbeddingProvider().createEmbedding(
+      "The quick brown fox"
+    );
+
+    expect(a).toEqual(b);
+  });
+
+  it("should embed every input of a batch", async () => {
+    const vectors = await provider.createEmbedding(["one", "two", "three"]);
+
+    expect(vectors).toHaveLength(3);
+  });
+
+  it("should give similar texts a higher similarity", async () => {
+    const [query, close, far] = await provider.createEmbedding([
+      "machine learning models",
+      "training machine learning models on data",
+      "chocolate chip cookie recipe",
+    ]);
+
+    expect(cosineSimilarity(query, close)).toBeGreaterThan(
+      cosineSimilarity(query, far)
+    );
+  });
+
+  it("should return a zero vector for text without words", async () => {
+    const [vector] = await provider.createEmbedding("  ...  ");
+
+    expect(vector.every((v) => v === 0)).toBe(true);
+  });
+
+  it("should apply input type templates", async () => {
+    const templated = new HashEmbeddingProvider("hash", {
+      inputTemplates: { query: "query: " },
+    });
+
+    const [query] = await templated.createEmbedding("fox", {
+      inputType: "query",
+    });
+    const [plain] = await provider.createEmbedding("query: fox");
+
+    expect(query).toEqual(plain);
+  });
+
+  it("should validate its options", () => {
+    expect(() => new HashEmbeddingProvider("hash", { dimensions: 0 })).toThrow(
+      ConfigurationError
+    );
+    expect(
+      () => new HashEmbeddingProvider("hash", { charNgrams: [4, 2] })
+    ).toThrow(ConfigurationError);
+  });
+
+  it("should be registered without requiring an apiKey", () => {
+    const created = providerRegistry.create("hash", {
+      options: { dimensions: 32 },
+    });
+
+    expect(created).toBeInstanceOf(HashEmbeddingProvider);
+    expect(created.getDimensions()).toBe(32);
+  });
+
+  describe("with EmbeddingsClient", () => {
+    it("should rank stored documents end to end", async () => {
+      const client = new EmbeddingsClient({
+        supabaseClient: createInMemorySupabase(),
+        provider,
+        threshold: 0,
+      });
+
+      await client.store([
+        { id: "cooking", content: "how to bake chocolate chip cookies" },
+        { id: "ml", content: "an introduction to machine learning models" },
+        { id: "weather", content: "sunny weather forecast for tomorrow" },
+      ]);
+
+      const results = await client.search("machine learning introduction", {
+        limit: 2,
+      });
+
+      expect(results).toHaveLength(2);
+      expect(results[0].id).toBe("ml");
+    });
+
+    it("should compute similarity offline", async () => {
+      const client = new EmbeddingsClient({
+        supabaseClient: createInMemorySupabase(),
+        provider,
+      });
+
+      expect(await client.similarity("same text", "same text")).toBeCloseTo(1);
+      expect(
+        await client.similarity("vector search", "vector searching")
+      ).toBeGreaterThan(await client.similarity("vector search", "banana"));
+    });
+  });
+});
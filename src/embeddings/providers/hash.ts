@@ -0,0 +1,102 @@
+import type {
+  EmbeddingProvider,
+  CreateOptions,
+  HashProviderOptions,
+  InputTypeTemplates,
+} from "../../types";
+import { ConfigurationError } from "../../types/errors";
+import { applyInputTemplate } from "./templates";
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Offline provider: hashes words, word bigrams and character n-grams into a
+// fixed-size signed vector (the "hashing trick"), then L2-normalizes it.
+// Identical texts always produce identical vectors and texts sharing vocabulary
+// land close together, which is enough for tests and local development.
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "hash";
+  private model: string;
+  private dimensions: number;
+  private charNgrams: [number, number];
+  private wordBigrams: boolean;
+  private lowercase: boolean;
+  private inputTemplates: InputTypeTemplates | undefined;
+
+  constructor(model: string = "hash", options: HashProviderOptions = {}) {
+    this.model = model;
+    this.dimensions = options.dimensions ?? 256;
+    this.charNgrams = options.charNgrams ?? [3, 4];
+    this.wordBigrams = options.wordBigrams ?? true;
+    this.lowercase = options.lowercase ?? true;
+    this.inputTemplates = options.inputTemplates;
+
+    if (!Number.isInteger(this.dimensions) || this.dimensions <= 0) {
+      throw new ConfigurationError("dimensions must be a positive integer");
+    }
+
+    if (this.charNgrams[0] < 1 || this.charNgrams[0] > this.charNgrams[1]) {
+      throw new ConfigurationError(
+        "charNgrams must be a valid [min, max] range"
+      );
+    }
+  }
+
+  async createEmbedding(
+    input: string | string[],
+    options?: CreateOptions
+  ): Promise<number[][]> {
+    const inputArray = Array.isArray(input) ? input : [input];
+    return applyInputTemplate(
+      inputArray,
+      options?.inputType,
+      this.inputTemplates
+    ).map((text) => this.embed(text));
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const normalized = this.lowercase ? text.toLowerCase() : text;
+    const words = normalized.match(WORD_PATTERN) ?? [];
+
+    words.forEach((word, index) => {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      if (this.wordBigrams && index > 0) {
+        this.addFeature(vector, `b:${words[index - 1]} ${word}`, 0.5);
+      }
+
+      const padded = ` ${word} `;
+      for (let n = this.charNgrams[0]; n <= this.charNgrams[1]; n++) {
+        for (let i = 0; i + n <= padded.length; i++) {
+          this.addFeature(vector, `c:${padded.slice(i, i + n)}`, 0.25);
+        }
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const sign = fnv1a(feature, 0x01000193) & 1 ? 1 : -1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+}
+
+function fnv1a(value: string, seed: number = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,66 @@
+import { EmbeddingProviderError } from "../../types/errors";
+import { classifyProviderError, parseRetryAfter } from "./errors";
+
+export interface PostJsonOptions {
+  provider: string;
+  // Prefix for error messages, e.g. "Rerank" gives "Rerank error (500): ..."
+  label: string;
+  headers: Record<string, string>;
+  timeoutMs?: number | undefined;
+  fetch?: typeof fetch | undefined;
+}
+
+// POSTs a JSON body and returns the parsed response, with failures
+// classified like provider errors so the retry policy can act on them
+export async function postJson(
+  url: string,
+  body: unknown,
+  options: PostJsonOptions
+): Promise<unknown> {
+  const { provider, label } = options;
+  let response: Response;
+  let text: string;
+  const controller = new AbortController();
+  const timeout = options.timeoutMs
+    ? setTimeout(() => controller.abort(), options.timeoutMs)
+    : undefined;
+
+  try {
+    response = await (options.fetch ?? fetch)(url, {
+      method: "POST",
+      headers: options.headers,
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    // The timeout also covers reading the body, which can stall too
+    text = await response.text();
+  } catch (error: any) {
+    throw classifyProviderError(
+      provider,
+      `${label} request failed: ${error.message}`,
+      { network: true }
+    );
+  } finally {
+    if (timeout) clearTimeout(timeout);
+  }
+
+  if (!response.ok) {
+    throw classifyProviderError(
+      provider,
+      `${label} error (${response.status}): ${text}`,
+      {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers),
+      }
+    );
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new EmbeddingProviderError(
+      `${label} error: response is not valid JSON`,
+      provider
+    );
+  }
+}
@@ -1 +1,5 @@
 export * from "./openai";
+export * from "./openai-compatible";
+export * from "./hash";
+export * from "./templates";
+export * from "./errors";
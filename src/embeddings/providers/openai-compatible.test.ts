@@ -0,0 +1,315 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  OpenAICompatibleProvider,
+  parseEmbeddingResponse,
+  parseEmbeddingUsage,
+} from "./openai-compatible";
+import { providerRegistry } from "../registry";
+import {
+  ConfigurationError,
+  EmbeddingProviderError,
+  RateLimitError,
+  TransientProviderError,
+} from "../../types/errors";
+
+interface RecordedRequest {
+  url: string;
+  headers: IncomingMessage["headers"];
+  body: any;
+}
+
+describe("OpenAICompatibleProvider", () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: RecordedRequest[];
+  let respond: (body: any) => { status: number; payload: unknown };
+  let retryAfter: string | undefined;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const body = JSON.parse(raw);
+        requests.push({ url: req.url ?? "", headers: req.headers, body });
+        const { status, payload } = respond(body);
+        res.writeHead(status, {
+          "Content-Type": "application/json",
+          ...(retryAfter && { "Retry-After": retryAfter }),
+        });
+        res.end(
+          typeof payload === "string" ? payload : JSON.stringify(payload)
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    retryAfter = undefined;
+    respond = (body) => ({
+      status: 200,
+      payload: {
+        data: body.input.map((_: string, index: number) => ({
+          index,
+          embedding: [index, index + 0.5],
+        })),
+      },
+    });
+  });
+
+  it("should post to the configured base URL with custom headers", async () => {
+    const provider = new OpenAICompatibleProvider("nomic-embed-text", {
+      baseURL,
+      apiKey: "secret",
+      headers: { "X-Tenant": "acme" },
+    });
+
+    const result = await provider.createEmbedding(["a", "b"]);
+
+    expect(result).toEqual([
+      [0, 0.5],
+      [1, 1.5],
+    ]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("/v1/embeddings");
+    expect(requests[0].headers.authorization).toBe("Bearer secret");
+    expect(requests[0].headers["x-tenant"]).toBe("acme");
+    expect(requests[0].body).toEqual({
+      model: "nomic-embed-text",
+      input: ["a", "b"],
+    });
+  });
+
+  it("should return the reported usage with the embeddings", async () => {
+    respond = () => ({
+      status: 200,
+      payload: {
+        data: [{ index: 0, embedding: [1] }],
+        usage: { prompt_tokens: 7, total_tokens: 7 },
+      },
+    });
+    const provider = new OpenAICompatibleProvider("nomic-embed-text", {
+      baseURL,
+    });
+
+    expect(await provider.createEmbeddingWithUsage("hello")).toEqual({
+      embeddings: [[1]],
+      usage: { tokens: 7 },
+    });
+  });
+
+  it("should reorder results by index", async () => {
+    respond = () => ({
+      status: 200,
+      payload: {
+        data: [
+          { index: 1, embedding: [2] },
+          { index: 0, embedding: [1] },
+        ],
+      },
+    });
+    const provider = new OpenAICompatibleProvider("m", {
+      baseURL,
+      dimensions: 1,
+    });
+
+    expect(await provider.createEmbedding(["a", "b"])).toEqual([[1], [2]]);
+  });
+
+  it("should support a custom path and Ollama-style responses", async () => {
+    respond = (body) => ({
+      status: 200,
+      payload: { embeddings: body.input.map(() => [0.1, 0.2, 0.3]) },
+    });
+    const provider = new OpenAICompatibleProvider("custom-model", {
+      baseURL: baseURL.replace(/\/v1$/, ""),
+      path: "api/embed",
+    });
+
+    const result = await provider.createEmbedding("hello");
+
+    expect(requests[0].url).toBe("/api/embed");
+    expect(result).toEqual([[0.1, 0.2, 0.3]]);
+    expect(provider.getDimensions()).toBe(3);
+  });
+
+  it("should apply input type templates", async () => {
+    const provider = new OpenAICompatibleProvider("nomic-embed-text", {
+      baseURL,
+    });
+
+    await provider.createEmbedding(["a"], { inputType: "query" });
+    await provider.createEmbedding(["b"], { inputType: "document" });
+
+    expect(requests[0].body.input).toEqual(["search_query: a"]);
+    expect(requests[1].body.input).toEqual(["search_document: b"]);
+  });
+
+  it("should send the input type in a body field when configured", async () => {
+    const provider = new OpenAICompatibleProvider("nomic-embed-text", {
+      baseURL,
+      inputTypeField: "input_type",
+      inputTypeValues: { document: "passage" },
+    });
+
+    await provider.createEmbedding(["a"], { inputType: "document" });
+
+    expect(requests[0].body).toEqual({
+      model: "nomic-embed-text",
+      input: ["a"],
+      input_type: "passage",
+    });
+  });
+
+  it("should throw EmbeddingProviderError on HTTP errors", async () => {
+    respond = () => ({ status: 500, payload: { error: "boom" } });
+    const provider = new OpenAICompatibleProvider("m", { baseURL });
+
+    await expect(provider.createEmbedding("x")).rejects.toThrow(
+      EmbeddingProviderError
+    );
+    await expect(provider.createEmbedding("x")).rejects.toThrow("(500)");
+  });
+
+  it("should classify rate limits with their Retry-After delay", async () => {
+    respond = () => ({ status: 429, payload: { error: "slow down" } });
+    retryAfter = "2";
+    const provider = new OpenAICompatibleProvider("m", { baseURL });
+
+    const error = await provider.createEmbedding("x").catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.status).toBe(429);
+    expect(error.retryAfterMs).toBe(2000);
+  });
+
+  it("should classify connection failures as transient", async () => {
+    const provider = new OpenAICompatibleProvider("m", {
+      baseURL: "http://127.0.0.1:1",
+    });
+
+    await expect(provider.createEmbedding("x")).rejects.toThrow(
+      TransientProviderError
+    );
+  });
+
+  it("should time out while the response body is still arriving", async () => {
+    const provider = new OpenAICompatibleProvider("m", {
+      baseURL,
+      timeoutMs: 20,
+      fetch: async (_url, init) => {
+        const body = new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode('{"data":'));
+            init?.signal?.addEventListener("abort", () =>
+              controller.error(new Error("aborted"))
+            );
+          },
+        });
+        return new Response(body);
+      },
+    });
+
+    await expect(provider.createEmbedding("x")).rejects.toThrow(
+      TransientProviderError
+    );
+  });
+
+  it("should throw when the number of embeddings does not match", async () => {
+    respond = () => ({ status: 200, payload: { data: [{ embedding: [1] }] } });
+    const provider = new OpenAICompatibleProvider("m", { baseURL });
+
+    await expect(provider.createEmbedding(["a", "b"])).rejects.toThrow(
+      "expected 2 embeddings, received 1"
+    );
+  });
+
+  it("should resolve dimensions from the per-model table", () => {
+    const provider = new OpenAICompatibleProvider("my-model", {
+      baseURL,
+      modelDimensions: { "my-model": 512 },
+    });
+
+    expect(provider.getDimensions()).toBe(512);
+  });
+
+  it("should throw ConfigurationError for unknown dimensions", () => {
+    const provider = new OpenAICompatibleProvider("unknown-model", {
+      baseURL,
+    });
+
+    expect(() => provider.getDimensions()).toThrow(ConfigurationError);
+  });
+
+  it("should require a baseURL", () => {
+    expect(() => new OpenAICompatibleProvider("m", { baseURL: "" })).toThrow(
+      ConfigurationError
+    );
+  });
+
+  it("should be available from the provider registry", () => {
+    const provider = providerRegistry.create("openai-compatible", {
+      model: "nomic-embed-text",
+      options: { baseURL },
+    });
+
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider.getDimensions()).toBe(768);
+  });
+});
+
+describe("parseEmbeddingResponse", () => {
+  it("should parse a single Ollama legacy embedding", () => {
+    expect(parseEmbeddingResponse({ embedding: [1, 2] })).toEqual([[1, 2]]);
+  });
+
+  it("should parse bare arrays", () => {
+    expect(parseEmbeddingResponse([[1], [2]])).toEqual([[1], [2]]);
+    expect(parseEmbeddingResponse([1, 2])).toEqual([[1, 2]]);
+  });
+
+  it("should decode base64 float32 embeddings", () => {
+    const buffer = Buffer.alloc(8);
+    buffer.writeFloatLE(0.5, 0);
+    buffer.writeFloatLE(-1, 4);
+
+    expect(
+      parseEmbeddingResponse({
+        data: [{ embedding: buffer.toString("base64") }],
+      })
+    ).toEqual([[0.5, -1]]);
+  });
+
+  it("should reject unrecognized payloads", () => {
+    expect(() => parseEmbeddingResponse({ foo: "bar" })).toThrow(
+      "unrecognized response format"
+    );
+  });
+});
+
+describe("parseEmbeddingUsage", () => {
+  it("should read OpenAI and Ollama token counts", () => {
+    expect(parseEmbeddingUsage({ usage: { prompt_tokens: 3 } })).toEqual({
+      tokens: 3,
+    });
+    expect(parseEmbeddingUsage({ usage: { total_tokens: 4 } })).toEqual({
+      tokens: 4,
+    });
+    expect(parseEmbeddingUsage({ prompt_eval_count: 5 })).toEqual({
+      tokens: 5,
+    });
+  });
+
+  it("should return undefined when the server reports nothing", () => {
+    expect(parseEmbeddingUsage({ data: [] })).toBeUndefined();
+  });
+});
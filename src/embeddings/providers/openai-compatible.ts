@@ -0,0 +1,227 @@
+import type {
+  EmbeddingProvider,
+  CreateOptions,
+  EmbeddingResponse,
+  EmbeddingUsage,
+  OpenAICompatibleProviderOptions,
+  Tokenizer,
+} from "../../types";
+import { ConfigurationError, EmbeddingProviderError } from "../../types/errors";
+import { applyInputTemplate, getKnownInputTemplates } from "./templates";
+import { postJson } from "./http";
+import { getTokenizer } from "../../tokenizers";
+
+const PROVIDER_NAME = "openai-compatible";
+
+// Dimensions of commonly self-hosted embedding models, used when neither
+// `dimensions` nor `modelDimensions` covers the configured model.
+const KNOWN_MODEL_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+  "nomic-embed-text": 768,
+  "mxbai-embed-large": 1024,
+  "all-minilm": 384,
+  "bge-m3": 1024,
+  "snowflake-arctic-embed": 1024,
+};
+
+export class OpenAICompatibleProvider implements EmbeddingProvider {
+  readonly name = PROVIDER_NAME;
+  private model: string;
+  private options: OpenAICompatibleProviderOptions;
+  private dimensions: number | undefined;
+  readonly maxBatchSize: number | undefined;
+  readonly maxBatchTokens: number | undefined;
+  readonly maxInputTokens: number | undefined;
+  readonly tokenizer: Tokenizer;
+
+  constructor(model: string, options: OpenAICompatibleProviderOptions) {
+    if (!options.baseURL) {
+      throw new ConfigurationError(
+        "baseURL is required for the openai-compatible provider"
+      );
+    }
+
+    this.model = model;
+    this.options = options;
+    this.dimensions = this.lookupDimensions(model);
+    this.maxBatchSize = options.maxBatchSize;
+    this.maxBatchTokens = options.maxBatchTokens;
+    this.maxInputTokens = options.maxInputTokens;
+    this.tokenizer = getTokenizer(model);
+  }
+
+  async createEmbedding(
+    input: string | string[],
+    options?: CreateOptions
+  ): Promise<number[][]> {
+    return (await this.createEmbeddingWithUsage(input, options)).embeddings;
+  }
+
+  async createEmbeddingWithUsage(
+    input: string | string[],
+    options?: CreateOptions
+  ): Promise<EmbeddingResponse> {
+    const model = options?.model ?? this.model;
+    const inputArray = Array.isArray(input) ? input : [input];
+    const inputType = options?.inputType;
+    const inputTypeField = this.options.inputTypeField;
+
+    // Servers that take an explicit input type field don't need prefixes
+    const templates =
+      this.options.inputTemplates ??
+      (inputTypeField ? undefined : getKnownInputTemplates(model));
+
+    const body = {
+      model,
+      input: applyInputTemplate(inputArray, inputType, templates),
+      ...(this.options.dimensions && { dimensions: this.options.dimensions }),
+      ...(inputTypeField &&
+        inputType && {
+          [inputTypeField]:
+            this.options.inputTypeValues?.[inputType] ?? inputType,
+        }),
+    };
+
+    const payload = await postJson(this.getEndpoint(), body, {
+      provider: PROVIDER_NAME,
+      label: "OpenAI-compatible embedding",
+      headers: this.buildHeaders(),
+      timeoutMs: this.options.timeoutMs,
+      fetch: this.options.fetch,
+    });
+
+    const embeddings = parseEmbeddingResponse(payload);
+
+    if (embeddings.length !== inputArray.length) {
+      throw new EmbeddingProviderError(
+        `OpenAI-compatible embedding error: expected ${inputArray.length} embeddings, received ${embeddings.length}`,
+        PROVIDER_NAME
+      );
+    }
+
+    if (model === this.model && this.dimensions === undefined) {
+      this.dimensions = embeddings[0]?.length;
+    }
+
+    const usage = parseEmbeddingUsage(payload);
+    return { embeddings, ...(usage && { usage }) };
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  getDimensions(): number {
+    if (this.dimensions === undefined) {
+      throw new ConfigurationError(
+        `Unknown dimensions for model "${this.model}". Set providerOptions.dimensions or providerOptions.modelDimensions.`
+      );
+    }
+    return this.dimensions;
+  }
+
+  private lookupDimensions(model: string): number | undefined {
+    return (
+      this.options.dimensions ??
+      this.options.modelDimensions?.[model] ??
+      KNOWN_MODEL_DIMENSIONS[model]
+    );
+  }
+
+  private getEndpoint(): string {
+    const base = this.options.baseURL.replace(/\/+$/, "");
+    const path = this.options.path ?? "/embeddings";
+    return `${base}${path.startsWith("/") ? path : `/${path}`}`;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      ...(this.options.apiKey && {
+        Authorization: `Bearer ${this.options.apiKey}`,
+      }),
+      ...(this.options.organization && {
+        "OpenAI-Organization": this.options.organization,
+      }),
+      ...this.options.headers,
+    };
+  }
+}
+
+// Accepts the OpenAI `{ data: [{ embedding, index }] }` shape as well as the
+// variants returned by Ollama (`embeddings` / `embedding`) and bare arrays.
+export function parseEmbeddingResponse(payload: unknown): number[][] {
+  const body = payload as any;
+
+  if (Array.isArray(body?.data)) {
+    return body.data
+      .map((item: any, position: number) => ({
+        index: typeof item?.index === "number" ? item.index : position,
+        embedding: toVector(item?.embedding ?? item),
+      }))
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+  }
+
+  if (Array.isArray(body?.embeddings)) {
+    return body.embeddings.map((item: any) =>
+      toVector(item?.embedding ?? item)
+    );
+  }
+
+  if (body?.embedding !== undefined) {
+    return [toVector(body.embedding)];
+  }
+
+  if (Array.isArray(body)) {
+    if (body.every((value) => typeof value === "number")) {
+      return [toVector(body)];
+    }
+    return body.map((item: any) => toVector(item?.embedding ?? item));
+  }
+
+  throw new EmbeddingProviderError(
+    "OpenAI-compatible embedding error: unrecognized response format",
+    PROVIDER_NAME
+  );
+}
+
+// OpenAI-style `usage`, or Ollama's native `prompt_eval_count`
+export function parseEmbeddingUsage(
+  payload: unknown
+): EmbeddingUsage | undefined {
+  const body = payload as any;
+  const tokens =
+    body?.usage?.prompt_tokens ??
+    body?.usage?.total_tokens ??
+    body?.prompt_eval_count;
+
+  return typeof tokens === "number" ? { tokens } : undefined;
+}
+
+function toVector(value: unknown): number[] {
+  if (typeof value === "string") {
+    // base64-encoded little-endian float32 array (encoding_format: "base64").
+    // atob rather than Buffer so this runs outside Node too.
+    const binary = atob(value);
+    const view = new DataView(
+      Uint8Array.from(binary, (char) => char.charCodeAt(0)).buffer
+    );
+    const vector: number[] = [];
+    for (let i = 0; i + 4 <= view.byteLength; i += 4) {
+      vector.push(view.getFloat32(i, true));
+    }
+    return vector;
+  }
+
+  if (Array.isArray(value) && value.every((v) => typeof v === "number")) {
+    return value;
+  }
+
+  throw new EmbeddingProviderError(
+    "OpenAI-compatible embedding error: embedding is not a numeric array",
+    PROVIDER_NAME
+  );
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { OpenAIProvider } from "./openai";
+import { embedWithUsage } from "../usage";
+
+// The SDK asks for base64 embeddings and decodes them itself
+function base64Embedding(values: number[]): string {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => buffer.writeFloatLE(value, i * 4));
+  return buffer.toString("base64");
+}
+
+describe("OpenAIProvider", () => {
+  let server: Server;
+  let baseURL: string;
+  let usage: unknown;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const body = JSON.parse(raw);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            data: [body.input].flat().map((_: string, index: number) => ({
+              index,
+              embedding: base64Embedding([0.5, -1]),
+            })),
+            ...(usage !== undefined && { usage }),
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    usage = undefined;
+  });
+
+  it("should return the usage the server reports", async () => {
+    usage = { prompt_tokens: 7, total_tokens: 7 };
+    const provider = new OpenAIProvider("key", "text-embedding-3-small", {
+      baseURL,
+    });
+
+    await expect(provider.createEmbeddingWithUsage("hello")).resolves.toEqual({
+      embeddings: [[0.5, -1]],
+      usage: { tokens: 7 },
+    });
+  });
+
+  it("should embed when the server reports no usage", async () => {
+    const provider = new OpenAIProvider("key", "text-embedding-3-small", {
+      baseURL,
+    });
+
+    const response = await provider.createEmbeddingWithUsage("hello world");
+
+    expect(response).toEqual({ embeddings: [[0.5, -1]] });
+    await expect(embedWithUsage(provider, "hello world")).resolves.toEqual({
+      embeddings: [[0.5, -1]],
+      usage: { tokens: 2, estimated: true },
+    });
+  });
+});
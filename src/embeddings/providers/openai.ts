@@ -1,36 +1,94 @@
 import OpenAI from "openai";
-import type { EmbeddingProvider, CreateOptions } from "../../types";
-import { EmbeddingProviderError } from "../../types/errors";
+import type {
+  EmbeddingProvider,
+  CreateOptions,
+  EmbeddingResponse,
+  InputTypeTemplates,
+  OpenAIProviderOptions,
+  Tokenizer,
+} from "../../types";
+import { applyInputTemplate } from "./templates";
+import { classifyProviderError, parseRetryAfter } from "./errors";
+import { getModelMaxInputTokens, getTokenizer } from "../../tokenizers";
 
 export class OpenAIProvider implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly maxBatchSize = 2048;
+  readonly maxBatchTokens = 300_000;
+  readonly maxInputTokens: number | undefined;
+  readonly tokenizer: Tokenizer;
   private client: OpenAI;
   private model: string;
   private dimensions: number;
+  private requestDimensions: number | undefined;
+  private inputTemplates: InputTypeTemplates | undefined;
 
-  constructor(apiKey: string, model: string = "text-embedding-3-small") {
-    this.client = new OpenAI({ apiKey });
+  constructor(
+    apiKey: string,
+    model: string = "text-embedding-3-small",
+    options: OpenAIProviderOptions = {}
+  ) {
+    this.client = new OpenAI({
+      apiKey,
+      // Retries are handled by SupabaseAIOptions.retry instead of the SDK
+      maxRetries: options.maxRetries ?? 0,
+      ...(options.organization && { organization: options.organization }),
+      ...(options.baseURL && { baseURL: options.baseURL }),
+      ...(options.headers && { defaultHeaders: options.headers }),
+    });
     this.model = model;
-    this.dimensions = model === "text-embedding-3-large" ? 3072 : 1536;
+    this.maxInputTokens = getModelMaxInputTokens(model);
+    this.tokenizer = getTokenizer(model);
+    this.requestDimensions = options.dimensions;
+    this.inputTemplates = options.inputTemplates;
+    this.dimensions =
+      options.dimensions ?? (model === "text-embedding-3-large" ? 3072 : 1536);
   }
 
   async createEmbedding(
     input: string | string[],
     options?: CreateOptions
   ): Promise<number[][]> {
+    return (await this.createEmbeddingWithUsage(input, options)).embeddings;
+  }
+
+  async createEmbeddingWithUsage(
+    input: string | string[],
+    options?: CreateOptions
+  ): Promise<EmbeddingResponse> {
     try {
       const model = options?.model ?? this.model;
       const inputArray = Array.isArray(input) ? input : [input];
 
       const response = await this.client.embeddings.create({
         model,
-        input: inputArray,
+        input: applyInputTemplate(
+          inputArray,
+          options?.inputType,
+          this.inputTemplates
+        ),
+        ...(this.requestDimensions && { dimensions: this.requestDimensions }),
       });
 
-      return response.data.map((embedding) => embedding.embedding);
+      // OpenAI-compatible servers behind baseURL may leave usage out
+      return {
+        embeddings: response.data.map((embedding) => embedding.embedding),
+        ...(response.usage && {
+          usage: { tokens: response.usage.prompt_tokens },
+        }),
+      };
     } catch (error: any) {
-      throw new EmbeddingProviderError(
+      throw classifyProviderError(
+        "openai",
         `OpenAI embedding error: ${error.message}`,
-        "openai"
+        {
+          status: error instanceof OpenAI.APIError ? error.status : undefined,
+          retryAfterMs:
+            error instanceof OpenAI.APIError
+              ? parseRetryAfter(error.headers)
+              : undefined,
+          network: error instanceof OpenAI.APIConnectionError,
+        }
       );
     }
   }
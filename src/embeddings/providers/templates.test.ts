@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { applyInputTemplate, getKnownInputTemplates } from "./templates";
+
+describe("applyInputTemplate", () => {
+  it("should prepend plain prefixes", () => {
+    expect(
+      applyInputTemplate(["hello"], "query", { query: "query: " })
+    ).toEqual(["query: hello"]);
+  });
+
+  it("should substitute {text} placeholders", () => {
+    expect(
+      applyInputTemplate(["a", "b"], "document", {
+        document: "<doc>{text}</doc>",
+      })
+    ).toEqual(["<doc>a</doc>", "<doc>b</doc>"]);
+  });
+
+  it("should leave inputs untouched without a matching template", () => {
+    const inputs = ["hello"];
+
+    expect(applyInputTemplate(inputs, undefined, { query: "q: " })).toBe(
+      inputs
+    );
+    expect(applyInputTemplate(inputs, "document", { query: "q: " })).toBe(
+      inputs
+    );
+    expect(applyInputTemplate(inputs, "query", undefined)).toBe(inputs);
+  });
+});
+
+describe("getKnownInputTemplates", () => {
+  it("should resolve templates for known asymmetric models", () => {
+    expect(getKnownInputTemplates("intfloat/multilingual-e5-large")).toEqual({
+      query: "query: ",
+      document: "passage: ",
+    });
+    expect(getKnownInputTemplates("nomic-embed-text")?.query).toBe(
+      "search_query: "
+    );
+  });
+
+  it("should return undefined for symmetric models", () => {
+    expect(getKnownInputTemplates("text-embedding-3-small")).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import type { EmbeddingInputType, InputTypeTemplates } from "../../types";
+
+// Instruction prefixes expected by popular asymmetric open models. Used by
+// providers that serve arbitrary models when no templates are configured.
+const KNOWN_MODEL_TEMPLATES: Array<{
+  pattern: RegExp;
+  templates: InputTypeTemplates;
+}> = [
+  {
+    pattern: /(^|\/)(multilingual-)?e5-/i,
+    templates: { query: "query: ", document: "passage: " },
+  },
+  {
+    pattern: /nomic-embed-text/i,
+    templates: { query: "search_query: ", document: "search_document: " },
+  },
+  {
+    pattern: /(^|\/)bge-(small|base|large)-en/i,
+    templates: {
+      query: "Represent this sentence for searching relevant passages: ",
+    },
+  },
+];
+
+export function getKnownInputTemplates(
+  model: string
+): InputTypeTemplates | undefined {
+  return KNOWN_MODEL_TEMPLATES.find(({ pattern }) => pattern.test(model))
+    ?.templates;
+}
+
+// A template containing `{text}` is treated as a full template, anything else
+// is prepended to the input as a prefix.
+export function applyInputTemplate(
+  inputs: string[],
+  inputType: EmbeddingInputType | undefined,
+  templates: InputTypeTemplates | undefined
+): string[] {
+  const template = inputType ? templates?.[inputType] : undefined;
+
+  if (!template) {
+    return inputs;
+  }
+
+  return inputs.map((text) =>
+    template.includes("{text}")
+      ? template.split("{text}").join(text)
+      : `${template}${text}`
+  );
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RateLimiter } from "./rate-limiter";
+import { ConfigurationError } from "../types/errors";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should allow requests within the per-minute budget immediately", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 3 });
+    const resolved = vi.fn();
+
+    Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]).then(
+      resolved
+    );
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(resolved).toHaveBeenCalled();
+  });
+
+  it("should delay requests over the per-minute budget", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 60 });
+    const calls: number[] = [];
+
+    for (let i = 0; i < 61; i++) {
+      limiter.acquire().then(() => calls.push(i));
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls).toHaveLength(60);
+
+    // One request per second refills
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(calls).toHaveLength(61);
+  });
+
+  it("should limit tokens per minute", async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 600 });
+    const resolved = vi.fn();
+
+    await limiter.acquire(600);
+    limiter.acquire(100).then(resolved);
+
+    await vi.advanceTimersByTimeAsync(9_000);
+    expect(resolved).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(resolved).toHaveBeenCalled();
+  });
+
+  it("should let requests larger than the budget through once the bucket is full", async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 100 });
+    const resolved = vi.fn();
+
+    limiter.acquire(1000).then(resolved);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(resolved).toHaveBeenCalled();
+  });
+
+  it("should reject invalid limits", () => {
+    expect(() => new RateLimiter({ requestsPerMinute: 0 })).toThrow(
+      ConfigurationError
+    );
+  });
+});
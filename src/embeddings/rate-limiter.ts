@@ -0,0 +1,106 @@
+import type { RateLimitOptions } from "../types";
+import { ConfigurationError } from "../types/errors";
+
+interface Bucket {
+  capacity: number;
+  available: number;
+  // Units regained per millisecond
+  refillRate: number;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Client-side token buckets for requests and tokens per minute. Callers are
+// served in FIFO order so a large request cannot be starved by small ones.
+export class RateLimiter {
+  private requests: Bucket | undefined;
+  private tokens: Bucket | undefined;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimitOptions) {
+    this.requests = this.createBucket(
+      options.requestsPerMinute,
+      "requestsPerMinute"
+    );
+    this.tokens = this.createBucket(options.tokensPerMinute, "tokensPerMinute");
+    this.lastRefill = Date.now();
+  }
+
+  acquire(tokens: number = 0): Promise<void> {
+    const turn = this.queue.then(() => this.take(tokens));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async take(tokens: number): Promise<void> {
+    for (;;) {
+      this.refill();
+
+      const wait = Math.max(
+        this.timeUntilAvailable(this.requests, 1),
+        this.timeUntilAvailable(this.tokens, tokens)
+      );
+
+      if (wait <= 0) {
+        this.consume(this.requests, 1);
+        this.consume(this.tokens, tokens);
+        return;
+      }
+
+      await sleep(wait);
+    }
+  }
+
+  private createBucket(
+    perMinute: number | undefined,
+    field: string
+  ): Bucket | undefined {
+    if (perMinute === undefined) {
+      return undefined;
+    }
+
+    if (!(perMinute > 0)) {
+      throw new ConfigurationError(`${field} must be greater than 0`);
+    }
+
+    return {
+      capacity: perMinute,
+      available: perMinute,
+      refillRate: perMinute / 60_000,
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+
+    for (const bucket of [this.requests, this.tokens]) {
+      if (bucket) {
+        bucket.available = Math.min(
+          bucket.capacity,
+          bucket.available + elapsed * bucket.refillRate
+        );
+      }
+    }
+  }
+
+  private timeUntilAvailable(bucket: Bucket | undefined, amount: number) {
+    if (!bucket) {
+      return 0;
+    }
+
+    // Requests larger than the whole bucket wait for a full bucket
+    const needed = Math.min(amount, bucket.capacity) - bucket.available;
+    return needed <= 0 ? 0 : Math.ceil(needed / bucket.refillRate);
+  }
+
+  private consume(bucket: Bucket | undefined, amount: number): void {
+    if (bucket) {
+      bucket.available -= Math.min(amount, bucket.capacity);
+    }
+  }
+}
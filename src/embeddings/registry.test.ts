@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+import { EmbeddingProviderRegistry, providerRegistry } from "./registry";
+import { OpenAIProvider } from "./providers";
+import { ConfigurationError } from "../types/errors";
+import type { EmbeddingProvider } from "../types";
+
+describe("EmbeddingProviderRegistry", () => {
+  const provider: EmbeddingProvider = {
+    createEmbedding: vi.fn(),
+    getModel: () => "mock-model",
+    getDimensions: () => 8,
+  };
+
+  it("should register and create providers by name", () => {
+    const factory = vi.fn().mockReturnValue(provider);
+    const registry = new EmbeddingProviderRegistry().register("mock", {
+      factory,
+    });
+
+    const created = registry.create("mock", {
+      apiKey: "key",
+      model: "mock-model",
+      options: { foo: "bar" },
+    });
+
+    expect(created).toBe(provider);
+    expect(factory).toHaveBeenCalledWith({
+      apiKey: "key",
+      model: "mock-model",
+      options: { foo: "bar" },
+    });
+    expect(registry.has("mock")).toBe(true);
+    expect(registry.list()).toEqual(["mock"]);
+  });
+
+  it("should fall back to the registration's default model", () => {
+    const factory = vi.fn().mockReturnValue(provider);
+    const registry = new EmbeddingProviderRegistry().register("mock", {
+      defaultModel: "default-model",
+      factory,
+    });
+
+    registry.create("mock", {});
+
+    expect(factory).toHaveBeenCalledWith({
+      model: "default-model",
+      options: {},
+    });
+  });
+
+  it("should throw ConfigurationError for unknown providers", () => {
+    const registry = new EmbeddingProviderRegistry();
+
+    expect(() => registry.create("missing", { model: "m" })).toThrow(
+      ConfigurationError
+    );
+  });
+
+  it("should enforce requiresApiKey", () => {
+    const registry = new EmbeddingProviderRegistry().register("mock", {
+      requiresApiKey: true,
+      factory: () => provider,
+    });
+
+    expect(() => registry.create("mock", { model: "m" })).toThrow(
+      "API key is required"
+    );
+  });
+
+  it("should throw when no model can be resolved", () => {
+    const registry = new EmbeddingProviderRegistry().register("mock", {
+      factory: () => provider,
+    });
+
+    expect(() => registry.create("mock", {})).toThrow("model is required");
+  });
+
+  it("should unregister providers", () => {
+    const registry = new EmbeddingProviderRegistry().register("mock", {
+      factory: () => provider,
+    });
+
+    expect(registry.unregister("mock")).toBe(true);
+    expect(registry.has("mock")).toBe(false);
+  });
+
+  describe("built-in providers", () => {
+    it("should register openai by default", () => {
+      const openai = providerRegistry.create("openai", {
+        apiKey: "test-api-key",
+        options: { dimensions: 256 },
+      });
+
+      expect(openai).toBeInstanceOf(OpenAIProvider);
+      expect(openai.getModel()).toBe("text-embedding-3-small");
+      expect(openai.getDimensions()).toBe(256);
+    });
+
+    it("should require an apiKey for openai", () => {
+      expect(() => providerRegistry.create("openai", {})).toThrow(
+        "API key is required"
+      );
+    });
+  });
+});
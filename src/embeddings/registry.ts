@@ -0,0 +1,104 @@
+import type {
+  EmbeddingProvider,
+  EmbeddingProviderFactoryConfig,
+  EmbeddingProviderName,
+  EmbeddingProviderOptions,
+  EmbeddingProviderRegistration,
+} from "../types";
+import { ConfigurationError } from "../types/errors";
+import {
+  OpenAIProvider,
+  OpenAICompatibleProvider,
+  HashEmbeddingProvider,
+} from "./providers";
+
+export class EmbeddingProviderRegistry {
+  private registrations = new Map<string, EmbeddingProviderRegistration<any>>();
+
+  register<P extends EmbeddingProviderName>(
+    name: P,
+    registration: EmbeddingProviderRegistration<EmbeddingProviderOptions<P>>
+  ): this {
+    if (!name.trim()) {
+      throw new ConfigurationError("provider name cannot be empty");
+    }
+
+    this.registrations.set(name, registration);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.registrations.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.registrations.has(name);
+  }
+
+  get(name: string): EmbeddingProviderRegistration<any> | undefined {
+    return this.registrations.get(name);
+  }
+
+  list(): string[] {
+    return Array.from(this.registrations.keys());
+  }
+
+  create(
+    name: string,
+    config: Partial<EmbeddingProviderFactoryConfig<any>>
+  ): EmbeddingProvider {
+    const registration = this.registrations.get(name);
+
+    if (!registration) {
+      throw new ConfigurationError(
+        `Unknown embedding provider "${name}". Registered providers: ${this.list().join(
+          ", "
+        )}`
+      );
+    }
+
+    if (registration.requiresApiKey && !config.apiKey) {
+      throw new ConfigurationError("API key is required");
+    }
+
+    const model = config.model ?? registration.defaultModel;
+
+    if (!model) {
+      throw new ConfigurationError(
+        `model is required for embedding provider "${name}"`
+      );
+    }
+
+    return registration.factory({
+      ...(config.apiKey && { apiKey: config.apiKey }),
+      model,
+      options: config.options ?? {},
+    });
+  }
+}
+
+export const providerRegistry = new EmbeddingProviderRegistry()
+  .register("openai", {
+    requiresApiKey: true,
+    defaultModel: "text-embedding-3-small",
+    factory: ({ apiKey, model, options }) =>
+      new OpenAIProvider(apiKey!, model, options),
+  })
+  .register("openai-compatible", {
+    factory: ({ apiKey, model, options }) =>
+      new OpenAICompatibleProvider(model, {
+        ...(apiKey && { apiKey }),
+        ...options,
+      }),
+  })
+  .register("hash", {
+    defaultModel: "hash",
+    factory: ({ model, options }) => new HashEmbeddingProvider(model, options),
+  });
+
+export function registerEmbeddingProvider<P extends EmbeddingProviderName>(
+  name: P,
+  registration: EmbeddingProviderRegistration<EmbeddingProviderOptions<P>>
+): void {
+  providerRegistry.register(name, registration);
+}
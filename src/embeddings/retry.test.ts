@@ -0,0 +1,210 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  RetryingEmbeddingProvider,
+  computeBackoffDelay,
+  isRetryableError,
+  withRetry,
+} from "./retry";
+import { RateLimiter } from "./rate-limiter";
+import {
+  AuthenticationError,
+  RateLimitError,
+  TransientProviderError,
+} from "../types/errors";
+import type { EmbeddingProvider } from "../types";
+
+describe("computeBackoffDelay", () => {
+  it("should grow exponentially up to maxDelayMs", () => {
+    const options = { initialDelayMs: 100, maxDelayMs: 1000, jitter: false };
+
+    expect(computeBackoffDelay(1, options)).toBe(100);
+    expect(computeBackoffDelay(2, options)).toBe(200);
+    expect(computeBackoffDelay(3, options)).toBe(400);
+    expect(computeBackoffDelay(10, options)).toBe(1000);
+  });
+
+  it("should apply full jitter", () => {
+    const options = { initialDelayMs: 100, jitter: true };
+
+    expect(computeBackoffDelay(2, options, () => 0.5)).toBe(100);
+    expect(computeBackoffDelay(2, options, () => 0)).toBe(0);
+  });
+});
+
+describe("isRetryableError", () => {
+  it("should only retry rate limits and transient failures", () => {
+    expect(isRetryableError(new RateLimitError("x", "p", 429))).toBe(true);
+    expect(isRetryableError(new TransientProviderError("x", "p", 503))).toBe(
+      true
+    );
+    expect(isRetryableError(new AuthenticationError("x", "p", 401))).toBe(
+      false
+    );
+    expect(isRetryableError(new Error("x"))).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  const fastRetry = { initialDelayMs: 1, jitter: false };
+
+  it("should retry transient failures until success", async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new TransientProviderError("down", "p", 503))
+      .mockResolvedValue("ok");
+
+    await expect(withRetry(operation, fastRetry)).resolves.toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it("should give up after maxAttempts", async () => {
+    const error = new TransientProviderError("down", "p", 503);
+    const operation = vi.fn().mockRejectedValue(error);
+
+    await expect(
+      withRetry(operation, { ...fastRetry, maxAttempts: 3 })
+    ).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry non-retryable errors", async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValue(new AuthenticationError("bad key", "p", 401));
+
+    await expect(withRetry(operation, fastRetry)).rejects.toThrow(
+      AuthenticationError
+    );
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("should honor Retry-After delays", async () => {
+    const onRetry = vi.fn();
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError("slow", "p", 429, 5))
+      .mockResolvedValue("ok");
+
+    await withRetry(operation, { ...fastRetry, onRetry });
+
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 1, delayMs: 5 })
+    );
+  });
+
+  it("should cap Retry-After delays at maxDelayMs", async () => {
+    const onRetry = vi.fn();
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError("slow", "p", 429, 3_600_000))
+      .mockResolvedValue("ok");
+
+    await withRetry(operation, { ...fastRetry, maxDelayMs: 10, onRetry });
+
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 1, delayMs: 10 })
+    );
+  });
+
+  it("should ignore Retry-After when respectRetryAfter is false", async () => {
+    const onRetry = vi.fn();
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError("slow", "p", 429, 60_000))
+      .mockResolvedValue("ok");
+
+    await withRetry(operation, {
+      ...fastRetry,
+      respectRetryAfter: false,
+      onRetry,
+    });
+
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ delayMs: 1 })
+    );
+  });
+});
+
+describe("RetryingEmbeddingProvider", () => {
+  function createProvider(): EmbeddingProvider {
+    return {
+      createEmbedding: vi
+        .fn()
+        .mockRejectedValueOnce(new TransientProviderError("down", "p", 502))
+        .mockResolvedValue([[1, 2]]),
+      getModel: () => "model",
+      getDimensions: () => 2,
+      maxBatchSize: 16,
+    };
+  }
+
+  it("should retry the wrapped provider", async () => {
+    const inner = createProvider();
+    const provider = new RetryingEmbeddingProvider(inner, {
+      retry: { initialDelayMs: 1 },
+    });
+
+    await expect(
+      provider.createEmbedding("text", { inputType: "query" })
+    ).resolves.toEqual([[1, 2]]);
+    expect(inner.createEmbedding).toHaveBeenCalledTimes(2);
+    expect(inner.createEmbedding).toHaveBeenCalledWith("text", {
+      inputType: "query",
+    });
+  });
+
+  it("should not retry when retry is disabled", async () => {
+    const provider = new RetryingEmbeddingProvider(createProvider(), {
+      retry: false,
+    });
+
+    await expect(provider.createEmbedding("text")).rejects.toThrow(
+      TransientProviderError
+    );
+  });
+
+  it("should acquire the rate limiter with estimated tokens", async () => {
+    const rateLimiter = new RateLimiter({ requestsPerMinute: 100 });
+    const acquire = vi.spyOn(rateLimiter, "acquire");
+    const provider = new RetryingEmbeddingProvider(createProvider(), {
+      retry: { initialDelayMs: 1 },
+      rateLimiter,
+    });
+
+    await provider.createEmbedding(["abcd", "abcdefgh"]);
+
+    // Once per attempt
+    expect(acquire).toHaveBeenCalledTimes(2);
+    expect(acquire).toHaveBeenCalledWith(3);
+  });
+
+  it("should count rate-limited tokens with the provider's tokenizer", async () => {
+    const rateLimiter = new RateLimiter({ tokensPerMinute: 1000 });
+    const acquire = vi.spyOn(rateLimiter, "acquire");
+    const load = vi.fn().mockResolvedValue(undefined);
+    const provider = new RetryingEmbeddingProvider(
+      {
+        ...createProvider(),
+        tokenizer: {
+          count: (text) => text.length,
+          truncate: (text) => text,
+          load,
+        },
+      },
+      { retry: false, rateLimiter }
+    );
+
+    await provider.createEmbedding(["abcd", "abcdefgh"]).catch(() => {});
+
+    expect(load).toHaveBeenCalled();
+    expect(acquire).toHaveBeenCalledWith(12);
+  });
+
+  it("should forward provider details", () => {
+    const provider = new RetryingEmbeddingProvider(createProvider());
+
+    expect(provider.getModel()).toBe("model");
+    expect(provider.getDimensions()).toBe(2);
+    expect(provider.maxBatchSize).toBe(16);
+  });
+});
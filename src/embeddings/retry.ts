@@ -0,0 +1,160 @@
+import type {
+  CreateOptions,
+  EmbeddingProvider,
+  EmbeddingResponse,
+  RetryOptions,
+  Tokenizer,
+} from "../types";
+import { RateLimitError, TransientProviderError } from "../types/errors";
+import { estimateTokens } from "./batching";
+import { RateLimiter, sleep } from "./rate-limiter";
+import { embedWithUsage } from "./usage";
+
+const DEFAULT_RETRY_OPTIONS = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 30_000,
+  backoffMultiplier: 2,
+  jitter: true,
+  respectRetryAfter: true,
+};
+
+export function isRetryableError(error: unknown): boolean {
+  return (
+    error instanceof RateLimitError || error instanceof TransientProviderError
+  );
+}
+
+// Exponential backoff for the given 1-based attempt, with "full jitter"
+// (a random delay between 0 and the exponential ceiling) when enabled
+export function computeBackoffDelay(
+  attempt: number,
+  options: RetryOptions = {},
+  random: () => number = Math.random
+): number {
+  const policy = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1)
+  );
+  return policy.jitter ? Math.round(random() * ceiling) : ceiling;
+}
+
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const policy = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error: any) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      // Retry-After is capped so a misbehaving server can't stall the caller
+      const retryAfterMs: number | undefined = error.retryAfterMs;
+      const delayMs =
+        policy.respectRetryAfter && retryAfterMs !== undefined
+          ? Math.min(retryAfterMs, policy.maxDelayMs)
+          : computeBackoffDelay(attempt, policy);
+
+      options.onRetry?.({ attempt, delayMs, error });
+      await sleep(delayMs);
+    }
+  }
+}
+
+export interface RetryingEmbeddingProviderOptions {
+  retry?: RetryOptions | false;
+  rateLimiter?: RateLimiter;
+}
+
+// Decorates a provider with the retry policy and client-side rate limiting.
+// Every attempt, including retries, goes through the rate limiter.
+export class RetryingEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    private provider: EmbeddingProvider,
+    private options: RetryingEmbeddingProviderOptions = {}
+  ) {}
+
+  get name(): string | undefined {
+    return this.provider.name;
+  }
+
+  get maxBatchSize(): number | undefined {
+    return this.provider.maxBatchSize;
+  }
+
+  get maxBatchTokens(): number | undefined {
+    return this.provider.maxBatchTokens;
+  }
+
+  get maxInputTokens(): number | undefined {
+    return this.provider.maxInputTokens;
+  }
+
+  get tokenizer(): Tokenizer | undefined {
+    return this.provider.tokenizer;
+  }
+
+  createEmbedding(
+    input: string | string[],
+    options?: CreateOptions
+  ): Promise<number[][]> {
+    return this.attempt(input, () =>
+      this.provider.createEmbedding(input, options)
+    );
+  }
+
+  createEmbeddingWithUsage(
+    input: string | string[],
+    options?: CreateOptions
+  ): Promise<EmbeddingResponse> {
+    return this.attempt(input, () =>
+      embedWithUsage(this.provider, input, options)
+    );
+  }
+
+  private async attempt<T>(
+    input: string | string[],
+    request: () => Promise<T>
+  ): Promise<T> {
+    const tokens = this.options.rateLimiter
+      ? await this.countTokens(Array.isArray(input) ? input : [input])
+      : 0;
+
+    const attempt = async () => {
+      await this.options.rateLimiter?.acquire(tokens);
+      return request();
+    };
+
+    if (this.options.retry === false) {
+      return attempt();
+    }
+
+    return withRetry(attempt, this.options.retry);
+  }
+
+  // Counted with the provider's tokenizer when it has one
+  private async countTokens(texts: string[]): Promise<number> {
+    const tokenizer = this.provider.tokenizer;
+    await tokenizer?.load?.();
+
+    return texts.reduce(
+      (sum, text) =>
+        sum + (tokenizer ? tokenizer.count(text) : estimateTokens(text)),
+      0
+    );
+  }
+
+  getModel(): string {
+    return this.provider.getModel();
+  }
+
+  getDimensions(): number {
+    return this.provider.getDimensions();
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  DEFAULT_EMBEDDING_PRICES,
+  UsageTally,
+  UsageTracker,
+  combineUsage,
+  embedWithUsage,
+} from "./usage";
+import type { EmbeddingProvider } from "../types";
+
+function createProvider(
+  overrides: Partial<EmbeddingProvider> = {}
+): EmbeddingProvider {
+  return {
+    createEmbedding: vi
+      .fn()
+      .mockImplementation(async (input: string | string[]) =>
+        [input].flat().map(() => [0])
+      ),
+    getModel: () => "model-a",
+    getDimensions: () => 1,
+    ...overrides,
+  };
+}
+
+describe("embedWithUsage", () => {
+  it("should return the usage the provider reports", async () => {
+    const provider = createProvider({
+      createEmbeddingWithUsage: vi
+        .fn()
+        .mockResolvedValue({ embeddings: [[1]], usage: { tokens: 12 } }),
+    });
+
+    expect(await embedWithUsage(provider, "text")).toEqual({
+      embeddings: [[1]],
+      usage: { tokens: 12 },
+    });
+    expect(provider.createEmbedding).not.toHaveBeenCalled();
+  });
+
+  it("should count tokens with the tokenizer when none are reported", async () => {
+    const provider = createProvider({
+      tokenizer: { count: (text) => text.length, truncate: (text) => text },
+    });
+
+    const { usage } = await embedWithUsage(provider, ["abc", "de"]);
+
+    expect(usage).toEqual({ tokens: 5, estimated: true });
+  });
+});
+
+describe("UsageTally", () => {
+  it("should price tokens per million", () => {
+    const tally = new UsageTally({ "model-a": 2 });
+    tally.add("model-a", { tokens: 250_000 });
+    tally.add("model-a", { tokens: 250_000, estimated: true });
+
+    expect(tally.report()).toEqual({
+      tokens: 500_000,
+      estimatedTokens: 250_000,
+      cost: 1,
+      byModel: {
+        "model-a": { tokens: 500_000, estimatedTokens: 250_000, cost: 1 },
+      },
+    });
+  });
+
+  it("should leave the cost out when a used model has no price", () => {
+    const tally = new UsageTally({ "model-a": 2 });
+    tally.add("model-a", { tokens: 1_000_000 });
+    tally.add("model-b", { tokens: 10 });
+
+    const report = tally.report();
+
+    expect(report.cost).toBeUndefined();
+    expect(report.byModel["model-a"].cost).toBe(2);
+    expect(report.byModel["model-b"]).not.toHaveProperty("cost");
+  });
+});
+
+describe("combineUsage", () => {
+  it("should add reports up per model", () => {
+    const a = new UsageTally({ "model-a": 1, "model-b": 1 });
+    a.add("model-a", { tokens: 1_000_000 });
+    const b = new UsageTally({ "model-a": 1, "model-b": 1 });
+    b.add("model-a", { tokens: 1_000_000 });
+    b.add("model-b", { tokens: 1_000_000 });
+
+    expect(combineUsage([a.report(), b.report()])).toMatchObject({
+      tokens: 3_000_000,
+      cost: 3,
+      byModel: {
+        "model-a": { tokens: 2_000_000, cost: 2 },
+        "model-b": { tokens: 1_000_000, cost: 1 },
+      },
+    });
+  });
+});
+
+describe("UsageTracker", () => {
+  it("should merge custom prices over the defaults", async () => {
+    const meter = vi.fn();
+    const tracker = new UsageTracker({ "model-a": 1 }, meter);
+
+    await tracker.track({ operation: "create" }, async (tally) => {
+      tally.add("model-a", { tokens: 1_000_000 });
+      tally.add("text-embedding-3-small", { tokens: 1_000_000 });
+    });
+
+    expect(meter.mock.calls[0][0]).toMatchObject({
+      operation: "create",
+      cost: 1 + DEFAULT_EMBEDDING_PRICES["text-embedding-3-small"],
+    });
+  });
+
+  it("should record failed calls and keep running totals", async () => {
+    const meter = vi.fn();
+    const tracker = new UsageTracker({}, meter);
+
+    await expect(
+      tracker.track(
+        { operation: "store", table: "docs", tags: { tenant: "acme" } },
+        async (tally) => {
+          tally.add("model-a", { tokens: 5 });
+          throw new Error("insert failed");
+        }
+      )
+    ).rejects.toThrow("insert failed");
+    await tracker.track({ operation: "search" }, async (tally) =>
+      tally.add("model-a", { tokens: 3 })
+    );
+
+    expect(meter.mock.calls[0][0]).toMatchObject({
+      operation: "store",
+      table: "docs",
+      tags: { tenant: "acme" },
+      tokens: 5,
+    });
+    expect(tracker.getUsage().tokens).toBe(8);
+
+    tracker.reset();
+    expect(tracker.getUsage()).toEqual({
+      tokens: 0,
+      estimatedTokens: 0,
+      cost: 0,
+      byModel: {},
+    });
+  });
+
+  it("should ignore errors thrown by the meter", async () => {
+    const tracker = new UsageTracker({}, () => {
+      throw new Error("billing down");
+    });
+
+    await expect(
+      tracker.track({ operation: "create" }, async () => "done")
+    ).resolves.toBe("done");
+  });
+});
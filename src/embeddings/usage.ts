@@ -0,0 +1,155 @@
+import type {
+  CreateOptions,
+  EmbeddingPriceTable,
+  EmbeddingProvider,
+  EmbeddingUsage,
+  UsageMeter,
+  UsageRecord,
+  UsageReport,
+  UsageSummary,
+} from "../types";
+import { estimateTokens } from "./batching";
+
+// USD per million input tokens, from OpenAI's published prices
+export const DEFAULT_EMBEDDING_PRICES: EmbeddingPriceTable = {
+  "text-embedding-3-small": 0.02,
+  "text-embedding-3-large": 0.13,
+  "text-embedding-ada-002": 0.1,
+};
+
+// Embeds through createEmbeddingWithUsage when the provider has it. Inputs
+// of providers that report no usage are counted with their tokenizer.
+export async function embedWithUsage(
+  provider: EmbeddingProvider,
+  input: string | string[],
+  options?: CreateOptions
+): Promise<{ embeddings: number[][]; usage: EmbeddingUsage }> {
+  const response = provider.createEmbeddingWithUsage
+    ? await provider.createEmbeddingWithUsage(input, options)
+    : { embeddings: await provider.createEmbedding(input, options) };
+
+  if (response.usage) {
+    return { embeddings: response.embeddings, usage: response.usage };
+  }
+
+  const tokenizer = provider.tokenizer;
+  await tokenizer?.load?.();
+  const tokens = [input]
+    .flat()
+    .reduce(
+      (sum, text) =>
+        sum + (tokenizer ? tokenizer.count(text) : estimateTokens(text)),
+      0
+    );
+  return {
+    embeddings: response.embeddings,
+    usage: { tokens, estimated: true },
+  };
+}
+
+function addSummaries(a: UsageSummary, b: UsageSummary): UsageSummary {
+  return {
+    tokens: a.tokens + b.tokens,
+    estimatedTokens: a.estimatedTokens + b.estimatedTokens,
+    ...(a.cost !== undefined &&
+      b.cost !== undefined && { cost: a.cost + b.cost }),
+  };
+}
+
+function toReport(byModel: Record<string, UsageSummary>): UsageReport {
+  const summaries = Object.values(byModel);
+  // The total has no cost as soon as one model that was used has no price
+  const priced = summaries.every(
+    (summary) => summary.cost !== undefined || summary.tokens === 0
+  );
+
+  return {
+    tokens: summaries.reduce((sum, summary) => sum + summary.tokens, 0),
+    estimatedTokens: summaries.reduce(
+      (sum, summary) => sum + summary.estimatedTokens,
+      0
+    ),
+    ...(priced && {
+      cost: summaries.reduce((sum, summary) => sum + (summary.cost ?? 0), 0),
+    }),
+    byModel,
+  };
+}
+
+export function combineUsage(reports: UsageReport[]): UsageReport {
+  const byModel: Record<string, UsageSummary> = {};
+
+  for (const report of reports) {
+    for (const [model, summary] of Object.entries(report.byModel)) {
+      byModel[model] = byModel[model]
+        ? addSummaries(byModel[model], summary)
+        : { ...summary };
+    }
+  }
+
+  return toReport(byModel);
+}
+
+// Adds up the usage of the provider requests made for one call
+export class UsageTally {
+  private byModel: Record<string, UsageSummary> = {};
+
+  constructor(private prices: EmbeddingPriceTable) {}
+
+  add(model: string, usage: EmbeddingUsage): void {
+    const price = this.prices[model];
+    const summary: UsageSummary = {
+      tokens: usage.tokens,
+      estimatedTokens: usage.estimated ? usage.tokens : 0,
+      ...(price !== undefined && { cost: (usage.tokens / 1_000_000) * price }),
+    };
+
+    this.byModel[model] = this.byModel[model]
+      ? addSummaries(this.byModel[model], summary)
+      : summary;
+  }
+
+  report(): UsageReport {
+    return combineUsage([toReport(this.byModel)]);
+  }
+}
+
+// Keeps the client's running totals and hands every call's usage to the meter
+export class UsageTracker {
+  private prices: EmbeddingPriceTable;
+  private totals: UsageReport = toReport({});
+
+  constructor(prices?: EmbeddingPriceTable, private meter?: UsageMeter) {
+    this.prices = { ...DEFAULT_EMBEDDING_PRICES, ...prices };
+  }
+
+  // Usage is recorded when the call settles, so failed calls still count
+  // what they spent before failing
+  async track<T>(
+    details: Omit<UsageRecord, keyof UsageReport>,
+    call: (tally: UsageTally) => Promise<T>
+  ): Promise<T> {
+    const tally = new UsageTally(this.prices);
+
+    try {
+      return await call(tally);
+    } finally {
+      const report = tally.report();
+      this.totals = combineUsage([this.totals, report]);
+
+      try {
+        this.meter?.({ ...details, ...report });
+      } catch {
+        // A failing meter must not fail the metered call
+      }
+    }
+  }
+
+  getUsage(): UsageReport {
+    return combineUsage([this.totals]);
+  }
+
+  reset(): void {
+    this.totals = toReport({});
+  }
+}
@@ -20,22 +20,6 @@ export function generateId(): string {
   return crypto.randomUUID();
 }
 
-export function buildFilters(filters: Record<string, any>): any {
-  const query: any = {};
-
-  for (const [key, value] of Object.entries(filters)) {
-    if (typeof value === "object" && value !== null) {
-      for (const [operator, operandValue] of Object.entries(value)) {
-        query[`${key}.${operator}`] = operandValue;
-      }
-    } else {
-      query[`${key}.eq`] = value;
-    }
-  }
-
-  return query;
-}
-
 export function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length !== b.length) {
     throw new Error("Vectors must have the same length");
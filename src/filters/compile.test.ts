@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { compileFilter, legacyFilter } from "./compile";
+import { ValidationError } from "../types/errors";
+import type { Filter } from "../types";
+
+describe("compileFilter", () => {
+  it("should compile equality shorthand on columns", () => {
+    expect(compileFilter({ user_id: "u1" })).toEqual({
+      op: "eq",
+      column: "user_id",
+      path: [],
+      value: "u1",
+    });
+  });
+
+  it("should compile metadata paths and operators", () => {
+    expect(compileFilter({ "metadata.stats.year": { gte: 2020 } })).toEqual({
+      op: "gte",
+      column: "metadata",
+      path: ["stats", "year"],
+      value: 2020,
+    });
+  });
+
+  it("should combine several fields and operators with and", () => {
+    expect(
+      compileFilter({ user_id: "u1", "metadata.year": { gt: 1, lt: 5 } })
+    ).toEqual({
+      op: "and",
+      args: [
+        { op: "eq", column: "user_id", path: [], value: "u1" },
+        {
+          op: "and",
+          args: [
+            { op: "gt", column: "metadata", path: ["year"], value: 1 },
+            { op: "lt", column: "metadata", path: ["year"], value: 5 },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should compile logical operators", () => {
+    const filter: Filter = {
+      or: [
+        { "metadata.lang": { in: ["en", "de"] } },
+        { not: { "metadata.tags": { contains: ["draft"] } } },
+      ],
+    };
+
+    expect(compileFilter(filter)).toEqual({
+      op: "or",
+      args: [
+        { op: "in", column: "metadata", path: ["lang"], value: ["en", "de"] },
+        {
+          op: "not",
+          arg: {
+            op: "contains",
+            column: "metadata",
+            path: ["tags"],
+            value: ["draft"],
+          },
+        },
+      ],
+    });
+  });
+
+  it("should compile exists and its negation", () => {
+    expect(compileFilter({ "metadata.author": { exists: true } })).toEqual({
+      op: "exists",
+      column: "metadata",
+      path: ["author"],
+    });
+    expect(compileFilter({ "metadata.author": { exists: false } })).toEqual({
+      op: "not",
+      arg: { op: "exists", column: "metadata", path: ["author"] },
+    });
+  });
+
+  it("should keep null equality for IS NULL checks", () => {
+    expect(compileFilter({ source_id: null })).toEqual({
+      op: "eq",
+      column: "source_id",
+      path: [],
+      value: null,
+    });
+  });
+
+  it.each([
+    [
+      { "user_id; drop table documents": "x" },
+      'Invalid filter field "user_id; drop table documents"',
+    ],
+    [{ "metadata..year": 1 }, 'Invalid filter field "metadata..year"'],
+    [
+      { "metadata.year": { like: "x" } },
+      'Unknown filter operator "like" at where.metadata.year',
+    ],
+    [
+      { "metadata.year": { gt: true } },
+      "where.metadata.year.gt must be a string or number",
+    ],
+    [
+      { "metadata.lang": { in: [] } },
+      "where.metadata.lang.in must be a non-empty array",
+    ],
+    [
+      { "metadata.lang": { eq: { a: 1 } } },
+      "where.metadata.lang.eq must be a string",
+    ],
+    [
+      { "metadata.x": { exists: "yes" } },
+      "where.metadata.x.exists must be a boolean",
+    ],
+    [{ or: [] }, "where.or must be a non-empty array"],
+    [{ and: [{ a: 1 }, {}] }, "where.and[1] must not be empty"],
+    [{}, "where must not be empty"],
+  ])("should reject %j", (filter, message) => {
+    expect(() => compileFilter(filter as Filter)).toThrow(ValidationError);
+    expect(() => compileFilter(filter as Filter)).toThrow(message);
+  });
+});
+
+describe("legacyFilter", () => {
+  it("should express filters and metadata in the filter language", () => {
+    expect(legacyFilter({ user_id: "u1" }, { lang: "en" })).toEqual({
+      and: [
+        { user_id: { eq: "u1" } },
+        { metadata: { contains: { lang: "en" } } },
+      ],
+    });
+    expect(legacyFilter({}, {})).toBeUndefined();
+  });
+});
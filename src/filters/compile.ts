@@ -0,0 +1,199 @@
+import type {
+  CompiledFilter,
+  ComparisonOperator,
+  FieldOperators,
+  Filter,
+} from "../types";
+import { ValidationError } from "../types/errors";
+
+const COLUMN_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const LOGICAL_KEYS = new Set(["and", "or", "not"]);
+const OPERATORS = new Set<ComparisonOperator>([
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "contains",
+  "exists",
+]);
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isScalar = (value: unknown) =>
+  value === null || ["string", "number", "boolean"].includes(typeof value);
+
+// Validates a filter and compiles it into the parameterized form understood
+// by the compile_filter SQL function. Errors name the offending location,
+// e.g. `where.or[1].metadata.year`.
+export function compileFilter(
+  filter: Filter,
+  location = "where"
+): CompiledFilter {
+  if (!isPlainObject(filter)) {
+    throw new ValidationError(`${location} must be an object`, location);
+  }
+
+  const entries = Object.entries(filter).filter(
+    ([, value]) => value !== undefined
+  );
+  if (entries.length === 0) {
+    throw new ValidationError(`${location} must not be empty`, location);
+  }
+
+  const parts = entries.map(([key, value]) =>
+    LOGICAL_KEYS.has(key)
+      ? compileLogical(key, value, `${location}.${key}`)
+      : compileField(key, value, `${location}.${key}`)
+  );
+
+  return parts.length === 1 ? parts[0] : { op: "and", args: parts };
+}
+
+function compileLogical(
+  key: string,
+  value: unknown,
+  location: string
+): CompiledFilter {
+  if (key === "not") {
+    return { op: "not", arg: compileFilter(value as Filter, location) };
+  }
+
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ValidationError(
+      `${location} must be a non-empty array of filters`,
+      location
+    );
+  }
+
+  return {
+    op: key as "and" | "or",
+    args: value.map((item, index) =>
+      compileFilter(item, `${location}[${index}]`)
+    ),
+  };
+}
+
+function compileField(
+  field: string,
+  condition: unknown,
+  location: string
+): CompiledFilter {
+  const [column, ...path] = field.split(".");
+
+  if (!COLUMN_PATTERN.test(column) || path.some((key) => key === "")) {
+    throw new ValidationError(`Invalid filter field "${field}"`, location);
+  }
+
+  if (!isPlainObject(condition)) {
+    return compileComparison(column, path, "eq", condition, location);
+  }
+
+  const operators = Object.entries(condition as FieldOperators).filter(
+    ([, value]) => value !== undefined
+  );
+  if (operators.length === 0) {
+    throw new ValidationError(
+      `${location} must have at least one operator`,
+      location
+    );
+  }
+
+  const parts = operators.map(([operator, value]) => {
+    if (!OPERATORS.has(operator as ComparisonOperator)) {
+      throw new ValidationError(
+        `Unknown filter operator "${operator}" at ${location}`,
+        location
+      );
+    }
+    return compileComparison(
+      column,
+      path,
+      operator as ComparisonOperator,
+      value,
+      `${location}.${operator}`
+    );
+  });
+
+  return parts.length === 1 ? parts[0] : { op: "and", args: parts };
+}
+
+function compileComparison(
+  column: string,
+  path: string[],
+  op: ComparisonOperator,
+  value: unknown,
+  location: string
+): CompiledFilter {
+  switch (op) {
+    case "eq":
+    case "neq":
+      if (!isScalar(value)) {
+        throw new ValidationError(
+          `${location} must be a string, number, boolean or null`,
+          location
+        );
+      }
+      break;
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte":
+      if (typeof value !== "string" && typeof value !== "number") {
+        throw new ValidationError(
+          `${location} must be a string or number`,
+          location
+        );
+      }
+      break;
+    case "in":
+      if (
+        !Array.isArray(value) ||
+        value.length === 0 ||
+        !value.every(isScalar)
+      ) {
+        throw new ValidationError(
+          `${location} must be a non-empty array of scalar values`,
+          location
+        );
+      }
+      break;
+    case "contains":
+      if (value === null) {
+        throw new ValidationError(`${location} must not be null`, location);
+      }
+      break;
+    case "exists":
+      if (typeof value !== "boolean") {
+        throw new ValidationError(`${location} must be a boolean`, location);
+      }
+      return value
+        ? { op: "exists", column, path }
+        : { op: "not", arg: { op: "exists", column, path } };
+  }
+
+  return { op, column, path, value };
+}
+
+// The legacy `filters` (column equality) and `metadata` (containment)
+// options expressed in the filter language
+export function legacyFilter(
+  filters?: Record<string, any>,
+  metadata?: Record<string, any>
+): Filter | undefined {
+  const conditions: Filter[] = Object.entries(filters ?? {}).map(
+    ([column, value]) => ({ [column]: { eq: value } })
+  );
+
+  if (metadata && Object.keys(metadata).length > 0) {
+    conditions.push({ metadata: { contains: metadata } });
+  }
+
+  if (conditions.length === 0) {
+    return undefined;
+  }
+  return conditions.length === 1 ? conditions[0] : { and: conditions };
+}
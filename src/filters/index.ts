@@ -0,0 +1 @@
+export { compileFilter, legacyFilter } from "./compile";
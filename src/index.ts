@@ -1,5 +1,46 @@
 export { SupabaseAI } from "./client";
 export { EmbeddingsClient } from "./embeddings";
-export { OpenAIProvider } from "./embeddings/providers";
+export {
+  OpenAIProvider,
+  OpenAICompatibleProvider,
+  HashEmbeddingProvider,
+} from "./embeddings/providers";
+export {
+  EmbeddingProviderRegistry,
+  providerRegistry,
+  registerEmbeddingProvider,
+} from "./embeddings/registry";
+export {
+  RetryingEmbeddingProvider,
+  withRetry,
+  computeBackoffDelay,
+  isRetryableError,
+} from "./embeddings/retry";
+export { RateLimiter } from "./embeddings/rate-limiter";
+export {
+  CachedEmbeddingProvider,
+  InMemoryEmbeddingCache,
+  SupabaseEmbeddingCache,
+} from "./embeddings/cache";
+export { classifyProviderError } from "./embeddings/providers";
+export { DEFAULT_EMBEDDING_PRICES, combineUsage } from "./embeddings/usage";
+export {
+  BaseTextSplitter,
+  RecursiveCharacterTextSplitter,
+  SentenceTextSplitter,
+  MarkdownTextSplitter,
+  CodeTextSplitter,
+  createTextSplitter,
+} from "./splitters";
+export {
+  BpeTokenizer,
+  ApproximateTokenizer,
+  getTokenizer,
+  loadTokenizer,
+  getModelMaxInputTokens,
+} from "./tokenizers";
+export { HttpReranker, LexicalReranker } from "./rerankers";
+export { compileFilter } from "./filters";
+export { SchemaClient, generateSchema } from "./schema";
 export * from "./types";
 export * from "./utils";
@@ -0,0 +1,2 @@
+export { createOpenTelemetryHooks } from "./tracing";
+export type { OpenTelemetryHooksOptions } from "./tracing";
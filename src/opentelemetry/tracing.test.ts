@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { SpanStatusCode } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { createOpenTelemetryHooks } from "./tracing";
+import { EmbeddingsClient } from "../embeddings";
+import type { EmbeddingProvider } from "../types";
+
+describe("createOpenTelemetryHooks", () => {
+  let exporter: InMemorySpanExporter;
+  let client: EmbeddingsClient;
+  let rpc: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    const tracer = new BasicTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)],
+    }).getTracer("test");
+
+    rpc = vi.fn().mockResolvedValue({
+      data: [{ id: "1", content: "a", metadata: {}, similarity: 0.9 }],
+      error: null,
+    });
+    const provider: EmbeddingProvider = {
+      createEmbedding: vi
+        .fn()
+        .mockImplementation(async (input: string | string[]) =>
+          (Array.isArray(input) ? input : [input]).map(() => [0.1, 0.2])
+        ),
+      getModel: () => "text-embedding-3-small",
+      getDimensions: () => 2,
+    };
+
+    client = new EmbeddingsClient({
+      supabaseClient: {
+        rpc,
+        from: vi.fn().mockReturnValue({
+          insert: vi.fn().mockResolvedValue({ error: null }),
+        }),
+      } as any,
+      provider,
+      table: "docs",
+      hooks: createOpenTelemetryHooks({ tracer }),
+    });
+  });
+
+  it("should record a search span with the embedding as its child", async () => {
+    await client.search("query", { limit: 5 });
+
+    const spans = exporter.getFinishedSpans();
+    const search = spans.find((span) => span.name === "search docs")!;
+    const embed = spans.find(
+      (span) => span.name === "embeddings text-embedding-3-small"
+    )!;
+
+    expect(spans).toHaveLength(2);
+    expect(embed.parentSpanContext?.spanId).toBe(search.spanContext().spanId);
+    expect(search.attributes).toMatchObject({
+      "db.system": "postgresql",
+      "db.operation.name": "search",
+      "db.collection.name": "docs",
+      "supabase_ai.search.limit": 5,
+      "supabase_ai.search.results": 1,
+    });
+    expect(search.attributes["supabase_ai.search.rpc_ms"]).toBeTypeOf("number");
+    expect(embed.attributes).toMatchObject({
+      "gen_ai.operation.name": "embeddings",
+      "gen_ai.request.model": "text-embedding-3-small",
+      "supabase_ai.embed.inputs": 1,
+      "supabase_ai.embed.input_type": "query",
+      "gen_ai.usage.input_tokens": 2,
+    });
+  });
+
+  it("should record store counts", async () => {
+    await client.store([{ content: "a" }, { content: "b" }]);
+
+    const store = exporter
+      .getFinishedSpans()
+      .find((span) => span.name === "store docs")!;
+    expect(store.attributes).toMatchObject({
+      "db.collection.name": "docs",
+      "supabase_ai.store.items": 2,
+      "supabase_ai.store.inserted": 2,
+      "supabase_ai.store.failed": 0,
+    });
+  });
+
+  it("should mark failed calls as errors", async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: "boom" } });
+
+    await expect(client.search("query")).rejects.toThrow();
+
+    const search = exporter
+      .getFinishedSpans()
+      .find((span) => span.name === "search docs")!;
+    expect(search.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: "Search failed: boom",
+    });
+    expect(search.attributes["error.type"]).toBe("DatabaseError");
+    expect(search.events[0].name).toBe("exception");
+  });
+
+  it("should nest the vector search under a hybrid search", async () => {
+    await client.hybridSearch("query");
+
+    const spans = exporter.getFinishedSpans();
+    const [inner, outer] = spans.filter((span) => span.name === "search docs");
+
+    expect(outer.attributes["db.operation.name"]).toBe("hybridSearch");
+    expect(inner.parentSpanContext?.spanId).toBe(outer.spanContext().spanId);
+  });
+});
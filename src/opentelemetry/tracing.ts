@@ -0,0 +1,114 @@
+import { context, trace, SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import type { Attributes, Span, Tracer } from "@opentelemetry/api";
+import type { HookEvent, LifecycleHooks } from "../types";
+
+export interface OpenTelemetryHooksOptions {
+  // Defaults to the global tracer provider's "@supavec/supabase-ai" tracer
+  tracer?: Tracer;
+}
+
+// Lifecycle hooks that record each embed, search and store call as a span.
+// Embeddings made for a search or store are children of its span; top-level
+// calls join whatever span is active when they start.
+export function createOpenTelemetryHooks(
+  options?: OpenTelemetryHooksOptions
+): LifecycleHooks {
+  const tracer = options?.tracer ?? trace.getTracer("@supavec/supabase-ai");
+  const spans = new Map<string, Span>();
+
+  const start = (name: string, event: HookEvent, attributes: Attributes) => {
+    const parent = event.parentId ? spans.get(event.parentId) : undefined;
+    const parentContext = parent
+      ? trace.setSpan(context.active(), parent)
+      : context.active();
+
+    spans.set(
+      event.id,
+      tracer.startSpan(
+        name,
+        {
+          kind: SpanKind.CLIENT,
+          attributes: {
+            "supabase_ai.operation": event.operation,
+            ...attributes,
+          },
+        },
+        parentContext
+      )
+    );
+  };
+
+  const end = (event: HookEvent, attributes: Attributes) => {
+    const span = spans.get(event.id);
+    if (!span) {
+      return;
+    }
+
+    spans.delete(event.id);
+    span.setAttributes(attributes);
+    span.end();
+  };
+
+  return {
+    beforeEmbed: (event) =>
+      start(`embeddings ${event.model}`, event, {
+        "gen_ai.operation.name": "embeddings",
+        "gen_ai.request.model": event.model,
+        "supabase_ai.embed.inputs": event.inputs,
+        ...(event.inputType && {
+          "supabase_ai.embed.input_type": event.inputType,
+        }),
+        ...(event.table && { "db.collection.name": event.table }),
+      }),
+    afterEmbed: (event) =>
+      end(event, { "gen_ai.usage.input_tokens": event.tokens }),
+
+    beforeSearch: (event) =>
+      start(`search ${event.table}`, event, {
+        "db.system": "postgresql",
+        "db.operation.name": event.operation,
+        "db.collection.name": event.table,
+        "supabase_ai.search.limit": event.limit,
+      }),
+    afterSearch: (event) =>
+      end(event, {
+        "supabase_ai.search.results": event.results,
+        ...(event.timings && {
+          "supabase_ai.search.embed_ms": event.timings.embedMs,
+          "supabase_ai.search.rpc_ms": event.timings.rpcMs,
+          "supabase_ai.search.post_process_ms": event.timings.postProcessMs,
+        }),
+      }),
+
+    beforeStore: (event) =>
+      start(`store ${event.table}`, event, {
+        "db.system": "postgresql",
+        "db.operation.name": event.operation,
+        "db.collection.name": event.table,
+        "supabase_ai.store.items": event.items,
+      }),
+    afterStore: (event) =>
+      end(event, {
+        "supabase_ai.store.inserted": event.inserted,
+        "supabase_ai.store.updated": event.updated,
+        "supabase_ai.store.skipped": event.skipped,
+        "supabase_ai.store.failed": event.failed,
+      }),
+
+    onError: (event) => {
+      const span = spans.get(event.id);
+      const error = event.error;
+
+      if (error instanceof Error) {
+        span?.recordException(error);
+      }
+      span?.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      end(event, {
+        "error.type": error instanceof Error ? error.name : "Error",
+      });
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from "vitest";
+import { HttpReranker, parseRerankResponse } from "./http";
+import {
+  ConfigurationError,
+  EmbeddingProviderError,
+  RateLimitError,
+  TransientProviderError,
+} from "../types/errors";
+
+function jsonResponse(body: unknown, status = 200, headers = {}) {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+describe("HttpReranker", () => {
+  it("should post the query and documents", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      jsonResponse({
+        results: [
+          { index: 0, relevance_score: 0.2 },
+          { index: 1, relevance_score: 0.8 },
+        ],
+      })
+    );
+    const reranker = new HttpReranker({
+      url: "https://rerank.example.com/v1/rerank",
+      apiKey: "secret",
+      model: "rerank-v3",
+      fetch: fetchMock,
+    });
+
+    const results = await reranker.rerank("q", ["a", "b"], { topN: 2 });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://rerank.example.com/v1/rerank");
+    expect(init.headers.Authorization).toBe("Bearer secret");
+    expect(JSON.parse(init.body)).toEqual({
+      query: "q",
+      documents: ["a", "b"],
+      model: "rerank-v3",
+      top_n: 2,
+    });
+    expect(results).toEqual([
+      { index: 1, score: 0.8 },
+      { index: 0, score: 0.2 },
+    ]);
+  });
+
+  it("should use a custom top-n field", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse([]));
+    const reranker = new HttpReranker({
+      url: "http://localhost:8080/rerank",
+      topNField: "top_k",
+      fetch: fetchMock,
+    });
+
+    await reranker.rerank("q", ["a"], { topN: 1 });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      top_k: 1,
+    });
+  });
+
+  it("should skip the request when there are no documents", async () => {
+    const fetchMock = vi.fn();
+    const reranker = new HttpReranker({ url: "http://x", fetch: fetchMock });
+
+    expect(await reranker.rerank("q", [])).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should classify HTTP and network errors", async () => {
+    const rateLimited = new HttpReranker({
+      url: "http://x",
+      fetch: vi
+        .fn()
+        .mockResolvedValue(
+          jsonResponse({ error: "slow down" }, 429, { "retry-after": "2" })
+        ),
+    });
+    const offline = new HttpReranker({
+      url: "http://x",
+      fetch: vi.fn().mockRejectedValue(new Error("ECONNREFUSED")),
+    });
+
+    await expect(rateLimited.rerank("q", ["a"])).rejects.toBeInstanceOf(
+      RateLimitError
+    );
+    await expect(offline.rerank("q", ["a"])).rejects.toBeInstanceOf(
+      TransientProviderError
+    );
+  });
+
+  it("should time out while the response body is still arriving", async () => {
+    const reranker = new HttpReranker({
+      url: "http://x",
+      timeoutMs: 20,
+      fetch: vi.fn(async (_url: string, init: RequestInit) => {
+        const body = new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode('{"results":'));
+            init.signal?.addEventListener("abort", () =>
+              controller.error(new Error("aborted"))
+            );
+          },
+        });
+        return new Response(body);
+      }),
+    });
+
+    await expect(reranker.rerank("q", ["a"])).rejects.toBeInstanceOf(
+      TransientProviderError
+    );
+  });
+
+  it("should require a url", () => {
+    expect(() => new HttpReranker({ url: "" })).toThrow(ConfigurationError);
+  });
+});
+
+describe("parseRerankResponse", () => {
+  it("should accept the common response shapes", () => {
+    const expected = [{ index: 0, score: 0.5 }];
+
+    expect(
+      parseRerankResponse({ results: [{ index: 0, relevance_score: 0.5 }] })
+    ).toEqual(expected);
+    expect(
+      parseRerankResponse({ data: [{ index: 0, relevance_score: 0.5 }] })
+    ).toEqual(expected);
+    expect(parseRerankResponse([{ index: 0, score: 0.5 }])).toEqual(expected);
+  });
+
+  it("should reject malformed responses", () => {
+    expect(() => parseRerankResponse({})).toThrow(EmbeddingProviderError);
+    expect(() => parseRerankResponse([{ index: "0", score: 1 }])).toThrow(
+      EmbeddingProviderError
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import type { HttpRerankerOptions, RerankResult, Reranker } from "../types";
+import { ConfigurationError, EmbeddingProviderError } from "../types/errors";
+import { postJson } from "../embeddings/providers/http";
+
+const PROVIDER_NAME = "http-reranker";
+
+// Client for hosted rerank endpoints (Cohere, Jina, Voyage, Hugging Face
+// TEI and compatible servers). Requests send { model, query, documents,
+// top_n }; responses may use `results`, `data` or a bare array of
+// { index, relevance_score | score }.
+export class HttpReranker implements Reranker {
+  constructor(private options: HttpRerankerOptions) {
+    if (!options.url) {
+      throw new ConfigurationError("url is required for HttpReranker");
+    }
+  }
+
+  async rerank(
+    query: string,
+    documents: string[],
+    options?: { topN?: number }
+  ): Promise<RerankResult[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const body = {
+      query,
+      documents,
+      ...(this.options.model && { model: this.options.model }),
+      ...(options?.topN !== undefined && {
+        [this.options.topNField ?? "top_n"]: options.topN,
+      }),
+    };
+
+    const payload = await postJson(this.options.url, body, {
+      provider: PROVIDER_NAME,
+      label: "Rerank",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.apiKey && {
+          Authorization: `Bearer ${this.options.apiKey}`,
+        }),
+        ...this.options.headers,
+      },
+      timeoutMs: this.options.timeoutMs,
+      fetch: this.options.fetch,
+    });
+
+    const results = parseRerankResponse(payload).filter(
+      (result) => result.index >= 0 && result.index < documents.length
+    );
+    results.sort((a, b) => b.score - a.score);
+
+    return options?.topN !== undefined
+      ? results.slice(0, options.topN)
+      : results;
+  }
+}
+
+export function parseRerankResponse(payload: unknown): RerankResult[] {
+  const body = payload as any;
+  const items = Array.isArray(body)
+    ? body
+    : body?.results ?? body?.data ?? undefined;
+
+  if (!Array.isArray(items)) {
+    throw new EmbeddingProviderError(
+      "Rerank error: response does not contain results",
+      PROVIDER_NAME
+    );
+  }
+
+  return items.map((item: any) => {
+    const score = item?.relevance_score ?? item?.score;
+    if (typeof item?.index !== "number" || typeof score !== "number") {
+      throw new EmbeddingProviderError(
+        "Rerank error: results must have a numeric index and score",
+        PROVIDER_NAME
+      );
+    }
+    return { index: item.index, score };
+  });
+}
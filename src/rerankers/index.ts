@@ -0,0 +1,2 @@
+export { HttpReranker, parseRerankResponse } from "./http";
+export { LexicalReranker } from "./lexical";
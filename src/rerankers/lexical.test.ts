@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { LexicalReranker } from "./lexical";
+
+describe("LexicalReranker", () => {
+  const documents = [
+    "Cats are small domesticated mammals.",
+    "The statute of limitations for contract claims is six years.",
+    "Contract law governs agreements; a breach of contract gives rise to claims.",
+  ];
+
+  it("should rank documents by query term overlap", async () => {
+    const reranker = new LexicalReranker();
+
+    const results = await reranker.rerank("contract claims", documents);
+
+    expect(results.map((result) => result.index)).toEqual([2, 1, 0]);
+    expect(results[2].score).toBe(0);
+  });
+
+  it("should weight rare terms above common ones", async () => {
+    const reranker = new LexicalReranker();
+
+    const [best] = await reranker.rerank("statute contract", documents);
+
+    expect(best.index).toBe(1);
+  });
+
+  it("should ignore case and punctuation", async () => {
+    const reranker = new LexicalReranker();
+
+    const [best] = await reranker.rerank("CATS!", documents);
+
+    expect(best.index).toBe(0);
+  });
+
+  it("should keep the input order for ties and honour topN", async () => {
+    const reranker = new LexicalReranker();
+
+    const results = await reranker.rerank("unrelated", documents, {
+      topN: 2,
+    });
+
+    expect(results).toEqual([
+      { index: 0, score: 0 },
+      { index: 1, score: 0 },
+    ]);
+  });
+});
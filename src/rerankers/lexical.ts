@@ -0,0 +1,71 @@
+import type { LexicalRerankerOptions, RerankResult, Reranker } from "../types";
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+// Offline BM25 scoring of the candidates against the query terms. Term
+// statistics come from the candidate set itself, so scores are only
+// comparable within one call.
+export class LexicalReranker implements Reranker {
+  private k1: number;
+  private b: number;
+
+  constructor(options: LexicalRerankerOptions = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  async rerank(
+    query: string,
+    documents: string[],
+    options?: { topN?: number }
+  ): Promise<RerankResult[]> {
+    const terms = Array.from(new Set(tokenize(query)));
+    const docs = documents.map((document) => {
+      const frequencies = new Map<string, number>();
+      const tokens = tokenize(document);
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+      }
+      return { length: tokens.length, frequencies };
+    });
+
+    const averageLength =
+      docs.reduce((sum, doc) => sum + doc.length, 0) / (docs.length || 1) || 1;
+
+    const idf = new Map(
+      terms.map((term) => {
+        const containing = docs.filter((doc) =>
+          doc.frequencies.has(term)
+        ).length;
+        return [
+          term,
+          Math.log(1 + (docs.length - containing + 0.5) / (containing + 0.5)),
+        ];
+      })
+    );
+
+    const results = docs.map((doc, index) => {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = doc.frequencies.get(term) ?? 0;
+        if (frequency === 0) continue;
+        score +=
+          (idf.get(term)! * frequency * (this.k1 + 1)) /
+          (frequency +
+            this.k1 * (1 - this.b + (this.b * doc.length) / averageLength));
+      }
+      return { index, score };
+    });
+
+    // Stable sort keeps the incoming (vector) order among equal scores
+    results.sort((a, b) => b.score - a.score);
+
+    return options?.topN !== undefined
+      ? results.slice(0, options.topN)
+      : results;
+  }
+}
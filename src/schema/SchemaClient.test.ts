@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from "vitest";
+import { SchemaClient } from "./SchemaClient";
+import { HashEmbeddingProvider } from "../embeddings/providers";
+import { DatabaseError, ValidationError } from "../types/errors";
+
+const indexInfo = {
+  name: "documents_embedding_idx",
+  method: "hnsw",
+  definition:
+    "CREATE INDEX documents_embedding_idx ON public.documents USING hnsw (embedding vector_cosine_ops) WITH (m='24')",
+};
+
+function createSchema(result: { data?: unknown; error?: unknown } = {}) {
+  const supabaseClient = {
+    rpc: vi.fn().mockResolvedValue({ data: indexInfo, error: null, ...result }),
+  };
+  const schema = new SchemaClient({
+    supabaseClient: supabaseClient as any,
+    provider: new HashEmbeddingProvider("hash", { dimensions: 384 }),
+    table: "documents",
+    metric: "l2",
+  });
+  return { schema, supabaseClient };
+}
+
+describe("SchemaClient.createIndex", () => {
+  it("should create an HNSW index for the client metric by default", async () => {
+    const { schema, supabaseClient } = createSchema();
+
+    await expect(schema.createIndex()).resolves.toEqual(indexInfo);
+    expect(supabaseClient.rpc).toHaveBeenCalledWith("create_embedding_index", {
+      table_name: "documents",
+      method: "hnsw",
+      metric: "l2",
+      params: {},
+      replace_existing: false,
+    });
+  });
+
+  it("should pass index parameters and replace", async () => {
+    const { schema, supabaseClient } = createSchema();
+
+    await schema.createIndex({
+      table: "articles",
+      metric: "cosine",
+      index: { type: "hnsw", m: 24, efConstruction: 128 },
+      replace: true,
+    });
+    expect(supabaseClient.rpc).toHaveBeenLastCalledWith(
+      "create_embedding_index",
+      {
+        table_name: "articles",
+        method: "hnsw",
+        metric: "cosine",
+        params: { m: 24, ef_construction: 128 },
+        replace_existing: true,
+      }
+    );
+
+    await schema.createIndex({ index: { type: "ivfflat", lists: 200 } });
+    expect(supabaseClient.rpc).toHaveBeenLastCalledWith(
+      "create_embedding_index",
+      expect.objectContaining({ method: "ivfflat", params: { lists: 200 } })
+    );
+  });
+
+  it("should validate options before calling the RPC", async () => {
+    const { schema, supabaseClient } = createSchema();
+
+    await expect(schema.createIndex({ index: "none" as any })).rejects.toThrow(
+      ValidationError
+    );
+    await expect(
+      schema.createIndex({ index: { type: "hnsw", m: 0 } })
+    ).rejects.toThrow("index.m must be a positive integer");
+    await expect(schema.createIndex({ table: "docs; --" })).rejects.toThrow(
+      ValidationError
+    );
+    expect(supabaseClient.rpc).not.toHaveBeenCalled();
+  });
+
+  it("should wrap database errors", async () => {
+    const { schema } = createSchema({
+      data: null,
+      error: { message: "must be owner of table documents" },
+    });
+
+    await expect(schema.createIndex()).rejects.toThrow(DatabaseError);
+  });
+});
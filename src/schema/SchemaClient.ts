@@ -0,0 +1,154 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  CreateIndexOptions,
+  DistanceMetric,
+  EmbeddingProvider,
+  IndexInfo,
+  GeneratedMigration,
+  SchemaGenerateOptions,
+  TableInspection,
+  VerifyOptions,
+  VerifyReport,
+} from "../types";
+import { DatabaseError, ValidationError } from "../types/errors";
+import { defaultSourcesTable } from "../embeddings/grouping";
+import {
+  generateSchema,
+  validateIdentifier,
+  validateIndexOptions,
+  validateMetric,
+} from "./generate";
+import {
+  DEFAULT_INSPECT_RPC,
+  DEFAULT_VERIFY_FUNCTIONS,
+  buildVerifyReport,
+  inspectFunctionMissing,
+} from "./verify";
+
+export interface SchemaClientConfig {
+  supabaseClient: SupabaseClient;
+  provider: EmbeddingProvider;
+  table: string;
+  metric?: DistanceMetric;
+}
+
+export class SchemaClient {
+  private supabase: SupabaseClient;
+  private provider: EmbeddingProvider;
+  private defaultTable: string;
+  private metric: DistanceMetric;
+
+  constructor(config: SchemaClientConfig) {
+    this.supabase = config.supabaseClient;
+    this.provider = config.provider;
+    this.defaultTable = config.table;
+    this.metric = config.metric ?? "cosine";
+  }
+
+  // Builds a migration for the configured table and provider dimensions;
+  // write `sql` to supabase/migrations/<filename> to apply it with the CLI
+  generate(options: SchemaGenerateOptions = {}): GeneratedMigration {
+    const table = options.table ?? this.defaultTable;
+
+    return generateSchema({
+      table,
+      dimensions: options.dimensions ?? this.provider.getDimensions(),
+      metric: options.metric ?? this.metric,
+      index: options.index ?? "hnsw",
+      sourcesTable: options.sourcesTable ?? defaultSourcesTable(table),
+      functions: options.functions ?? true,
+      language: options.language ?? "english",
+      timestamp: options.timestamp ?? new Date(),
+    });
+  }
+
+  // Creates the vector index through the create_embedding_index RPC. With
+  // replace, the existing index is dropped first so new parameters apply.
+  async createIndex(options: CreateIndexOptions = {}): Promise<IndexInfo> {
+    const table = options.table ?? this.defaultTable;
+    const metric = options.metric ?? this.metric;
+    const index = options.index ?? "hnsw";
+
+    validateIdentifier(table, "table");
+    validateMetric(metric);
+    validateIndexOptions(index);
+    if ((index as string) === "none") {
+      throw new ValidationError("index must be hnsw or ivfflat", "index");
+    }
+
+    const { type, ...parameters } =
+      typeof index === "string" ? { type: index } : index;
+    const params = {
+      ...("m" in parameters && { m: parameters.m }),
+      ...("efConstruction" in parameters && {
+        ef_construction: parameters.efConstruction,
+      }),
+      ...("lists" in parameters && { lists: parameters.lists }),
+    };
+
+    const { data, error } = await this.supabase.rpc(
+      options.rpc ?? "create_embedding_index",
+      {
+        table_name: table,
+        method: type,
+        metric,
+        params,
+        replace_existing: options.replace === true,
+      }
+    );
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to create index: ${error.message}`,
+        error
+      );
+    }
+
+    return data as IndexInfo;
+  }
+
+  // Checks that the database matches the client config. Problems are
+  // reported as checks; only an unreachable database throws.
+  async verify(options: VerifyOptions = {}): Promise<VerifyReport> {
+    const table = options.table ?? this.defaultTable;
+    const dimensions = options.dimensions ?? this.provider.getDimensions();
+    const functions = options.functions ?? DEFAULT_VERIFY_FUNCTIONS;
+    const inspectRpc = options.inspectRpc ?? DEFAULT_INSPECT_RPC;
+
+    const { data, error } = await this.supabase.rpc(inspectRpc, {
+      table_name: table,
+      function_names: functions,
+    });
+
+    if (error) {
+      if (isMissingFunctionError(error)) {
+        return {
+          ok: false,
+          table,
+          dimensions,
+          checks: [inspectFunctionMissing(inspectRpc)],
+        };
+      }
+      throw new DatabaseError(`Verify failed: ${error.message}`, error);
+    }
+
+    return buildVerifyReport(data as TableInspection, {
+      table,
+      dimensions,
+      metric: options.metric ?? this.metric,
+      functions,
+      ...(options.rls !== undefined && { rls: options.rls }),
+    });
+  }
+}
+
+// PostgREST reports unknown RPCs as PGRST202
+function isMissingFunctionError(error: {
+  code?: string;
+  message: string;
+}): boolean {
+  return (
+    error.code === "PGRST202" ||
+    /could not find the function/i.test(error.message)
+  );
+}
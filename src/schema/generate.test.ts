@@ -0,0 +1,158 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { describe, it, expect } from "vitest";
+import { SchemaClient } from "./SchemaClient";
+import { rpcFunctions } from "./generate";
+import { HashEmbeddingProvider } from "../embeddings/providers";
+import { ValidationError } from "../types/errors";
+
+const timestamp = new Date("2025-03-04T05:06:07Z");
+
+function createSchema(dimensions = 1536) {
+  return new SchemaClient({
+    provider: new HashEmbeddingProvider("hash", { dimensions }),
+    table: "documents",
+  });
+}
+
+describe("SchemaClient.generate", () => {
+  it("should default to the provider dimensions and client table", () => {
+    const migration = createSchema(384).generate({ timestamp });
+
+    expect(migration.name).toBe("create_documents");
+    expect(migration.filename).toBe("20250304050607_create_documents.sql");
+    expect(migration.sql).toContain("CREATE EXTENSION IF NOT EXISTS vector;");
+    expect(migration.sql).toContain("embedding vector(384)");
+    expect(migration.sql).toContain(
+      "CREATE TABLE IF NOT EXISTS documents_sources ("
+    );
+    expect(migration.sql).toContain(
+      "source_id text REFERENCES documents_sources(id) ON DELETE CASCADE"
+    );
+    expect(migration.sql).toContain(
+      "CREATE INDEX IF NOT EXISTS documents_embedding_idx ON documents USING hnsw (embedding vector_cosine_ops);"
+    );
+  });
+
+  it("should emit the RPC functions with the chosen defaults", () => {
+    const { sql } = createSchema().generate({
+      table: "articles",
+      metric: "inner_product",
+      language: "german",
+      timestamp,
+    });
+
+    for (const name of [
+      "match_documents",
+      "compile_filter",
+      "match_documents_filtered",
+      "match_documents_page",
+      "match_documents_text",
+      "inspect_embeddings_table",
+      "apply_search_settings",
+      "create_embedding_index",
+    ]) {
+      expect(sql).toContain(`CREATE OR REPLACE FUNCTION ${name}(`);
+    }
+    expect(sql).toContain("table_name text DEFAULT 'articles'");
+    expect(sql).toContain("metric text DEFAULT 'inner_product'");
+    expect(sql).toContain("language text DEFAULT 'german'");
+    expect(sql).toContain("to_tsvector('german', content)");
+    expect(sql).toContain("USING hnsw (embedding vector_ip_ops)");
+    expect(sql).toContain(
+      "DROP FUNCTION IF EXISTS match_documents(vector, float, int, text, jsonb);"
+    );
+    expect(sql).toContain(
+      "DROP FUNCTION IF EXISTS hybrid_search(vector, text, float, int, text);"
+    );
+  });
+
+  it("should skip functions and the sources table on request", () => {
+    const { sql } = createSchema().generate({
+      functions: false,
+      sourcesTable: false,
+      timestamp,
+    });
+
+    expect(sql).not.toContain("FUNCTION match_documents");
+    expect(sql).not.toContain("_sources");
+    expect(sql).not.toContain("source_id text");
+  });
+
+  it("should build index options for hnsw and ivfflat", () => {
+    const schema = createSchema();
+
+    expect(
+      schema.generate({
+        index: { type: "hnsw", m: 24, efConstruction: 128 },
+        timestamp,
+      }).sql
+    ).toContain(
+      "USING hnsw (embedding vector_cosine_ops) WITH (m = 24, ef_construction = 128);"
+    );
+    expect(
+      schema.generate({ index: "ivfflat", metric: "l2", timestamp }).sql
+    ).toContain("USING ivfflat (embedding vector_l2_ops) WITH (lists = 100);");
+    expect(schema.generate({ index: "none", timestamp }).sql).not.toContain(
+      "documents_embedding_idx"
+    );
+  });
+
+  it("should index large embeddings as halfvec", () => {
+    const { sql } = createSchema(3072).generate({ timestamp });
+
+    expect(sql).toContain("embedding vector(3072)");
+    expect(sql).toContain(
+      "USING hnsw ((embedding::halfvec(3072)) halfvec_cosine_ops);"
+    );
+  });
+
+  it("should quote mixed-case identifiers", () => {
+    const { sql } = createSchema().generate({
+      table: "MyDocs",
+      sourcesTable: false,
+      timestamp,
+    });
+
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS "MyDocs" (');
+    expect(sql).toContain('"MyDocs_embedding_idx" ON "MyDocs"');
+  });
+
+  it("should reject invalid options", () => {
+    const schema = createSchema();
+
+    expect(() => schema.generate({ table: "docs; DROP TABLE x" })).toThrow(
+      ValidationError
+    );
+    expect(() => schema.generate({ dimensions: 0 })).toThrow(ValidationError);
+    expect(() => schema.generate({ dimensions: 5000 })).toThrow(
+      /index: "none"/
+    );
+    expect(() =>
+      schema.generate({ index: { type: "ivfflat", lists: 0 } })
+    ).toThrow(ValidationError);
+    expect(() => schema.generate({ language: "english'" })).toThrow(
+      ValidationError
+    );
+    expect(schema.generate({ dimensions: 5000, index: "none" }).sql).toContain(
+      "vector(5000)"
+    );
+  });
+});
+
+describe("sql/setup.sql", () => {
+  it("should contain the generated RPC functions verbatim", () => {
+    const setup = readFileSync(
+      resolve(__dirname, "../../sql/setup.sql"),
+      "utf8"
+    );
+
+    for (const statement of rpcFunctions({
+      table: "documents",
+      metric: "cosine",
+      language: "english",
+    })) {
+      expect(setup).toContain(statement);
+    }
+  });
+});
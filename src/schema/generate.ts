@@ -0,0 +1,749 @@
+import type {
+  DistanceMetric,
+  GeneratedMigration,
+  ResolvedSchemaOptions,
+  VectorIndexOptions,
+} from "../types";
+import { ValidationError } from "../types/errors";
+import {
+  MAX_INDEXED_HALFVEC_DIMENSIONS,
+  MAX_INDEXED_VECTOR_DIMENSIONS,
+  METRICS,
+} from "./metrics";
+
+// pgvector's limit for the vector type
+const MAX_DIMENSIONS = 16000;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Quotes identifiers that Postgres would otherwise fold to lower case
+export function quoteIdent(name: string): string {
+  return /^[a-z_][a-z0-9_]*$/.test(name) ? name : `"${name}"`;
+}
+
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export function validateIdentifier(name: string, field: string): void {
+  if (!IDENTIFIER_PATTERN.test(name) || name.length > 63) {
+    throw new ValidationError(
+      `${field} must be a valid Postgres identifier, got "${name}"`,
+      field
+    );
+  }
+}
+
+export function validateMetric(metric: DistanceMetric): void {
+  if (!(metric in METRICS)) {
+    throw new ValidationError(`Unknown distance metric "${metric}"`, "metric");
+  }
+}
+
+export function validateIndexOptions(index: VectorIndexOptions): void {
+  const type = indexType(index);
+  if (!["hnsw", "ivfflat", "none"].includes(type)) {
+    throw new ValidationError(`Unknown index type "${type}"`, "index");
+  }
+
+  if (typeof index === "object") {
+    const { type, ...parameters } = index;
+    for (const [key, value] of Object.entries(parameters)) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new ValidationError(
+          `index.${key} must be a positive integer for ${type} indexes`,
+          `index.${key}`
+        );
+      }
+    }
+  }
+}
+
+export function validateSchemaOptions(options: ResolvedSchemaOptions): void {
+  validateIdentifier(options.table, "table");
+  if (options.sourcesTable !== false) {
+    validateIdentifier(options.sourcesTable, "sourcesTable");
+  }
+
+  if (
+    !Number.isInteger(options.dimensions) ||
+    options.dimensions < 1 ||
+    options.dimensions > MAX_DIMENSIONS
+  ) {
+    throw new ValidationError(
+      `dimensions must be an integer between 1 and ${MAX_DIMENSIONS}`,
+      "dimensions"
+    );
+  }
+
+  validateMetric(options.metric);
+
+  if (
+    options.index !== "none" &&
+    options.dimensions > MAX_INDEXED_HALFVEC_DIMENSIONS
+  ) {
+    throw new ValidationError(
+      `pgvector cannot index more than ${MAX_INDEXED_HALFVEC_DIMENSIONS} dimensions; use index: "none" or reduce dimensions`,
+      "index"
+    );
+  }
+
+  validateIndexOptions(options.index);
+
+  if (!/^[a-z_]+$/.test(options.language)) {
+    throw new ValidationError(
+      `language must be a text search configuration name, got "${options.language}"`,
+      "language"
+    );
+  }
+}
+
+// Emits a migration that creates the embeddings table, its indexes and the
+// RPC functions the client calls, matching the given dimensions and metric
+export function generateSchema(
+  options: ResolvedSchemaOptions
+): GeneratedMigration {
+  validateSchemaOptions(options);
+
+  const name = `create_${options.table.toLowerCase()}`;
+  const sections = [
+    header(options),
+    "CREATE EXTENSION IF NOT EXISTS vector;",
+    tables(options),
+    indexes(options),
+    triggers(options),
+    ...(options.functions ? rpcFunctions(options) : []),
+  ];
+
+  return {
+    name,
+    filename: `${formatTimestamp(options.timestamp)}_${name}.sql`,
+    sql: sections.join("\n\n") + "\n",
+  };
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+}
+
+function header(options: ResolvedSchemaOptions): string {
+  return [
+    `-- Generated by @supavec/supabase-ai`,
+    `-- table: ${options.table}, dimensions: ${options.dimensions}, metric: ${
+      options.metric
+    }, index: ${indexType(options.index)}`,
+  ].join("\n");
+}
+
+function indexType(index: VectorIndexOptions): string {
+  return typeof index === "string" ? index : index.type;
+}
+
+function tables(options: ResolvedSchemaOptions): string {
+  const table = quoteIdent(options.table);
+  const statements: string[] = [];
+
+  if (options.sourcesTable !== false) {
+    statements.push(`CREATE TABLE IF NOT EXISTS ${quoteIdent(
+      options.sourcesTable
+    )} (
+  id text PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  content text,
+  url text,
+  title text,
+  metadata jsonb DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);`);
+  }
+
+  const columns = [
+    "id uuid PRIMARY KEY DEFAULT gen_random_uuid()",
+    "content text NOT NULL",
+    `embedding vector(${options.dimensions})`,
+    "metadata jsonb DEFAULT '{}'",
+    "content_hash text",
+    ...(options.sourcesTable !== false
+      ? [
+          `source_id text REFERENCES ${quoteIdent(
+            options.sourcesTable
+          )}(id) ON DELETE CASCADE`,
+        ]
+      : []),
+    "created_at timestamptz DEFAULT now()",
+    "updated_at timestamptz DEFAULT now()",
+  ];
+
+  statements.push(
+    `CREATE TABLE IF NOT EXISTS ${table} (\n  ${columns.join(",\n  ")}\n);`
+  );
+
+  return statements.join("\n\n");
+}
+
+export function vectorIndexStatement(
+  options: Pick<
+    ResolvedSchemaOptions,
+    "table" | "dimensions" | "metric" | "index"
+  >
+): string {
+  const type = indexType(options.index);
+  if (type === "none") {
+    return "-- No vector index: searches scan the whole table";
+  }
+
+  const metric = METRICS[options.metric];
+  const halfvec = options.dimensions > MAX_INDEXED_VECTOR_DIMENSIONS;
+  const target = halfvec
+    ? `(embedding::halfvec(${options.dimensions})) ${metric.halfvecOpsClass}`
+    : `embedding ${metric.opsClass}`;
+
+  const parameters: string[] = [];
+  if (typeof options.index === "object") {
+    if (options.index.type === "hnsw") {
+      if (options.index.m !== undefined) {
+        parameters.push(`m = ${options.index.m}`);
+      }
+      if (options.index.efConstruction !== undefined) {
+        parameters.push(`ef_construction = ${options.index.efConstruction}`);
+      }
+    } else {
+      parameters.push(`lists = ${options.index.lists ?? 100}`);
+    }
+  } else if (type === "ivfflat") {
+    parameters.push("lists = 100");
+  }
+
+  const statement = `CREATE INDEX IF NOT EXISTS ${quoteIdent(
+    `${options.table}_embedding_idx`
+  )} ON ${quoteIdent(options.table)} USING ${type} (${target})${
+    parameters.length > 0 ? ` WITH (${parameters.join(", ")})` : ""
+  };`;
+
+  return halfvec
+    ? `-- ${options.dimensions} dimensions exceed the ${MAX_INDEXED_VECTOR_DIMENSIONS} pgvector can index as vector, so the index uses halfvec\n${statement}`
+    : statement;
+}
+
+function indexes(options: ResolvedSchemaOptions): string {
+  const table = quoteIdent(options.table);
+  const index = (suffix: string) => quoteIdent(`${options.table}_${suffix}`);
+
+  return [
+    vectorIndexStatement(options),
+    `CREATE INDEX IF NOT EXISTS ${index(
+      "metadata_idx"
+    )} ON ${table} USING gin (metadata);`,
+    `CREATE INDEX IF NOT EXISTS ${index(
+      "content_hash_idx"
+    )} ON ${table} (content_hash);`,
+    `CREATE INDEX IF NOT EXISTS ${index(
+      "content_fts_idx"
+    )} ON ${table} USING gin (to_tsvector(${quoteLiteral(
+      options.language
+    )}, content));`,
+    `CREATE INDEX IF NOT EXISTS ${index(
+      "metadata_source_id_idx"
+    )} ON ${table} ((metadata->>'source_id'));`,
+    ...(options.sourcesTable !== false
+      ? [
+          `CREATE INDEX IF NOT EXISTS ${index(
+            "source_id_idx"
+          )} ON ${table} (source_id);`,
+        ]
+      : []),
+  ].join("\n");
+}
+
+function triggers(options: ResolvedSchemaOptions): string {
+  const tables = [
+    options.table,
+    ...(options.sourcesTable !== false ? [options.sourcesTable] : []),
+  ];
+
+  return [
+    UPDATED_AT_FUNCTION_SQL,
+    ...tables.map((table) => {
+      const trigger = quoteIdent(`update_${table}_updated_at`);
+      return `DROP TRIGGER IF EXISTS ${trigger} ON ${quoteIdent(table)};
+CREATE TRIGGER ${trigger}
+  BEFORE UPDATE ON ${quoteIdent(table)}
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();`;
+    }),
+  ].join("\n\n");
+}
+
+// The RPCs take the table name and metric as arguments, so one set of
+// functions serves every table. The defaults match this migration.
+// sql/setup.sql embeds these statements rendered with its own defaults, and
+// generate.test.ts fails when the two drift apart.
+export function rpcFunctions(
+  options: Pick<ResolvedSchemaOptions, "table" | "metric" | "language">
+): string[] {
+  const table = quoteLiteral(options.table);
+  const metric = quoteLiteral(options.metric);
+  const language = quoteLiteral(options.language);
+
+  return [
+    `-- RPC functions used by EmbeddingsClient. Earlier signatures are dropped so
+-- PostgREST never sees two overloads.
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, text, jsonb);
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, text, jsonb, text);
+DROP FUNCTION IF EXISTS match_documents_filtered(vector, float, int, text, jsonb);
+DROP FUNCTION IF EXISTS match_documents_filtered(vector, float, int, text, jsonb, text);
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, text, jsonb, text, jsonb);
+DROP FUNCTION IF EXISTS match_documents_filtered(vector, float, int, text, jsonb, text, jsonb);
+DROP FUNCTION IF EXISTS match_documents_page(vector, float, int, text, jsonb, text, jsonb, float, uuid);
+DROP FUNCTION IF EXISTS match_documents_text(text, int, text, text, jsonb, jsonb, jsonb);
+DROP FUNCTION IF EXISTS hybrid_search(vector, text, float, int, text);`,
+    `-- Distance expression for a metric. Embeddings over ${MAX_INDEXED_VECTOR_DIMENSIONS} dimensions are
+-- compared as halfvec so the expression matches the index.
+CREATE OR REPLACE FUNCTION embedding_distance_sql(metric text, dimensions int)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  operator text := CASE metric
+    WHEN 'cosine' THEN '<=>'
+    WHEN 'inner_product' THEN '<#>'
+    WHEN 'l2' THEN '<->'
+  END;
+BEGIN
+  IF operator IS NULL THEN
+    RAISE EXCEPTION 'Unknown distance metric: %', metric;
+  END IF;
+  IF dimensions > ${MAX_INDEXED_VECTOR_DIMENSIONS} THEN
+    RETURN format('(embedding::halfvec(%s) %s $1::halfvec(%s))', dimensions, operator, dimensions);
+  END IF;
+  RETURN format('(embedding %s $1)', operator);
+END;
+$$;
+
+-- Converts a distance into a similarity where higher is better
+CREATE OR REPLACE FUNCTION embedding_similarity_sql(metric text, distance text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE metric
+    WHEN 'cosine' THEN format('(1 - %s)', distance)
+    WHEN 'inner_product' THEN format('(-1 * %s)', distance)
+    ELSE format('(1 / (1 + %s))', distance)
+  END;
+$$;`,
+    SEARCH_SETTINGS_FUNCTION_SQL,
+    `CREATE OR REPLACE FUNCTION match_documents(
+  query_embedding vector,
+  match_threshold float DEFAULT 0.8,
+  match_count int DEFAULT 10,
+  table_name text DEFAULT ${table},
+  filters jsonb DEFAULT '{}',
+  metric text DEFAULT ${metric},
+  search_settings jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  metadata jsonb,
+  similarity float,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  distance_sql text := embedding_distance_sql(metric, vector_dims(query_embedding));
+  similarity_sql text := embedding_similarity_sql(metric, distance_sql);
+  where_clause text := '';
+  filter_key text;
+  filter_value jsonb;
+BEGIN
+  PERFORM apply_search_settings(search_settings);
+
+  FOR filter_key, filter_value IN SELECT * FROM jsonb_each(filters) LOOP
+    where_clause := where_clause || format(' AND %I = %L', filter_key, filter_value #>> '{}');
+  END LOOP;
+
+  RETURN QUERY
+  EXECUTE format('
+    SELECT id, content, metadata, %s::float AS similarity, created_at, updated_at
+    FROM %I
+    WHERE %s > $2 %s
+    ORDER BY %s
+    LIMIT $3
+  ', similarity_sql, table_name, similarity_sql, where_clause, distance_sql)
+  USING query_embedding, match_threshold, match_count;
+END;
+$$;`,
+    `-- compile_filter turns the JSON produced by compileFilter() into a WHERE
+-- expression. Column names only pass through %I and values through %L, so
+-- nothing from the filter reaches the query unquoted. Metadata paths compare
+-- as jsonb; plain columns compare against literals coerced to their type.
+CREATE OR REPLACE FUNCTION compile_filter(filter jsonb)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  op text := filter->>'op';
+  is_path boolean := jsonb_array_length(COALESCE(filter->'path', '[]'::jsonb)) > 0;
+  target text;
+  literal text;
+  literals text;
+  parts text[];
+BEGIN
+  IF op IN ('and', 'or') THEN
+    SELECT array_agg(compile_filter(arg)) INTO parts
+    FROM jsonb_array_elements(filter->'args') AS arg;
+    RETURN '(' || array_to_string(parts, CASE WHEN op = 'and' THEN ' AND ' ELSE ' OR ' END) || ')';
+  END IF;
+
+  IF op = 'not' THEN
+    RETURN '(NOT ' || compile_filter(filter->'arg') || ')';
+  END IF;
+
+  IF is_path THEN
+    target := format('(%I #> %L)', filter->>'column', ARRAY(SELECT jsonb_array_elements_text(filter->'path')));
+    literal := format('%L::jsonb', filter->'value');
+  ELSE
+    target := format('%I', filter->>'column');
+    literal := format('%L', filter->'value' #>> '{}');
+  END IF;
+
+  CASE op
+    WHEN 'exists' THEN
+      RETURN format('(%s IS NOT NULL)', target);
+    WHEN 'eq' THEN
+      IF filter->'value' = 'null'::jsonb THEN
+        RETURN CASE WHEN is_path
+          THEN format('(%1$s IS NULL OR %1$s = ''null''::jsonb)', target)
+          ELSE format('(%s IS NULL)', target) END;
+      END IF;
+      RETURN format('(%s = %s)', target, literal);
+    WHEN 'neq' THEN
+      IF filter->'value' = 'null'::jsonb THEN
+        RETURN CASE WHEN is_path
+          THEN format('(%1$s IS NOT NULL AND %1$s <> ''null''::jsonb)', target)
+          ELSE format('(%s IS NOT NULL)', target) END;
+      END IF;
+      RETURN format('(%s IS DISTINCT FROM %s)', target, literal);
+    WHEN 'gt' THEN
+      RETURN format('(%s > %s)', target, literal);
+    WHEN 'gte' THEN
+      RETURN format('(%s >= %s)', target, literal);
+    WHEN 'lt' THEN
+      RETURN format('(%s < %s)', target, literal);
+    WHEN 'lte' THEN
+      RETURN format('(%s <= %s)', target, literal);
+    WHEN 'in' THEN
+      SELECT string_agg(
+        CASE WHEN is_path THEN format('%L::jsonb', item) ELSE format('%L', item #>> '{}') END,
+        ', '
+      ) INTO literals
+      FROM jsonb_array_elements(filter->'value') AS item;
+      RETURN format('(%s IN (%s))', target, literals);
+    WHEN 'contains' THEN
+      RETURN format('(%s @> %L::jsonb)', target, filter->'value');
+    ELSE
+      RAISE EXCEPTION 'Unknown filter operator: %', op;
+  END CASE;
+END;
+$$;`,
+    `CREATE OR REPLACE FUNCTION match_documents_filtered(
+  query_embedding vector,
+  match_threshold float DEFAULT 0.8,
+  match_count int DEFAULT 10,
+  table_name text DEFAULT ${table},
+  filter jsonb DEFAULT NULL,
+  metric text DEFAULT ${metric},
+  search_settings jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  metadata jsonb,
+  similarity float,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  distance_sql text := embedding_distance_sql(metric, vector_dims(query_embedding));
+  similarity_sql text := embedding_similarity_sql(metric, distance_sql);
+BEGIN
+  PERFORM apply_search_settings(search_settings);
+
+  RETURN QUERY
+  EXECUTE format('
+    SELECT id, content, metadata, %s::float AS similarity, created_at, updated_at
+    FROM %I
+    WHERE %s > $2 AND %s
+    ORDER BY %s
+    LIMIT $3
+  ', similarity_sql, table_name, similarity_sql,
+     CASE WHEN filter IS NULL THEN 'true' ELSE compile_filter(filter) END,
+     distance_sql)
+  USING query_embedding, match_threshold, match_count;
+END;
+$$;`,
+    `-- Keyset pagination for search({ paginate, cursor }). The client passes the
+-- last row's similarity and id from the cursor.
+CREATE OR REPLACE FUNCTION match_documents_page(
+  query_embedding vector,
+  match_threshold float DEFAULT 0.8,
+  match_count int DEFAULT 10,
+  table_name text DEFAULT ${table},
+  filter jsonb DEFAULT NULL,
+  metric text DEFAULT ${metric},
+  search_settings jsonb DEFAULT NULL,
+  after_similarity float DEFAULT NULL,
+  after_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  metadata jsonb,
+  similarity float,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  distance_sql text := embedding_distance_sql(metric, vector_dims(query_embedding));
+  similarity_sql text := embedding_similarity_sql(metric, distance_sql);
+BEGIN
+  PERFORM apply_search_settings(search_settings);
+
+  -- Rows strictly after the cursor in (similarity DESC, id) order. Ordering
+  -- by the similarity itself keeps the keyset exact, at the cost of the
+  -- vector index.
+  RETURN QUERY
+  EXECUTE format('
+    SELECT id, content, metadata, %s::float AS similarity, created_at, updated_at
+    FROM %I
+    WHERE %s > $2 AND %s
+      AND ($4 IS NULL OR %s::float < $4 OR (%s::float = $4 AND id > $5))
+    ORDER BY %s::float DESC, id
+    LIMIT $3
+  ', similarity_sql, table_name, similarity_sql,
+     CASE WHEN filter IS NULL THEN 'true' ELSE compile_filter(filter) END,
+     similarity_sql, similarity_sql, similarity_sql)
+  USING query_embedding, match_threshold, match_count, after_similarity, after_id;
+END;
+$$;`,
+    `-- text_score is ts_rank_cd normalized to [0, 1). The language is inlined so
+-- the to_tsvector(language, content) index can be used.
+CREATE OR REPLACE FUNCTION match_documents_text(
+  search_text text,
+  match_count int DEFAULT 10,
+  table_name text DEFAULT ${table},
+  language text DEFAULT ${language},
+  filters jsonb DEFAULT '{}',
+  metadata_filter jsonb DEFAULT '{}',
+  filter jsonb DEFAULT NULL -- compileFilter() output, see compile_filter
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  metadata jsonb,
+  text_score float,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  where_clause text := '';
+  filter_key text;
+  filter_value jsonb;
+BEGIN
+  FOR filter_key, filter_value IN SELECT * FROM jsonb_each(filters) LOOP
+    where_clause := where_clause || format(' AND %I = %L', filter_key, filter_value #>> '{}');
+  END LOOP;
+
+  IF filter IS NOT NULL THEN
+    where_clause := where_clause || ' AND ' || compile_filter(filter);
+  END IF;
+
+  RETURN QUERY
+  EXECUTE format('
+    SELECT
+      id,
+      content,
+      metadata,
+      ts_rank_cd(to_tsvector(%L::regconfig, content), websearch_to_tsquery(%L::regconfig, $1), 32)::float AS text_score,
+      created_at,
+      updated_at
+    FROM %I
+    WHERE to_tsvector(%L::regconfig, content) @@ websearch_to_tsquery(%L::regconfig, $1)
+      AND ($3 = ''{}'' OR metadata @> $3) %s
+    ORDER BY text_score DESC
+    LIMIT $2
+  ', language, language, table_name, language, language, where_clause)
+  USING search_text, match_count, metadata_filter;
+END;
+$$;`,
+    CREATE_INDEX_FUNCTION_SQL,
+    INSPECT_FUNCTION_SQL,
+  ];
+}
+
+const UPDATED_AT_FUNCTION_SQL = `CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;`;
+
+const SEARCH_SETTINGS_FUNCTION_SQL = `-- search_settings carries per-query tuning from search({ tuning, exact }).
+-- set_config(..., true) is SET LOCAL: the settings end with the request's transaction.
+CREATE OR REPLACE FUNCTION apply_search_settings(settings jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF settings IS NULL THEN
+    RETURN;
+  END IF;
+  IF settings ? 'ef_search' THEN
+    PERFORM set_config('hnsw.ef_search', (settings->>'ef_search')::int::text, true);
+  END IF;
+  IF settings ? 'probes' THEN
+    PERFORM set_config('ivfflat.probes', (settings->>'probes')::int::text, true);
+  END IF;
+  -- Requires pgvector 0.8; keeps scanning the index until enough rows pass the filters
+  IF settings ? 'iterative_scan' THEN
+    PERFORM set_config('hnsw.iterative_scan', settings->>'iterative_scan', true);
+    PERFORM set_config('ivfflat.iterative_scan', settings->>'iterative_scan', true);
+  END IF;
+  -- Exact search: without index scans the planner sorts every row by distance
+  IF (settings->>'exact')::boolean THEN
+    PERFORM set_config('enable_indexscan', 'off', true);
+  END IF;
+END;
+$$;`;
+
+// Called by SchemaClient.createIndex()
+const CREATE_INDEX_FUNCTION_SQL = `-- Identifiers go through %I and every parameter is cast to int. ivfflat
+-- without lists sizes them from the row count, so create it after loading data.
+CREATE OR REPLACE FUNCTION create_embedding_index(
+  table_name text,
+  method text DEFAULT 'hnsw',
+  metric text DEFAULT 'cosine',
+  params jsonb DEFAULT '{}',
+  replace_existing boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  index_name text := table_name || '_embedding_idx';
+  ops text := CASE metric
+    WHEN 'cosine' THEN 'cosine_ops'
+    WHEN 'inner_product' THEN 'ip_ops'
+    WHEN 'l2' THEN 'l2_ops'
+  END;
+  dimensions int;
+  target text;
+  settings text[] := '{}';
+  row_count bigint;
+BEGIN
+  IF method NOT IN ('hnsw', 'ivfflat') THEN
+    RAISE EXCEPTION 'Unknown index method: %', method;
+  END IF;
+  IF ops IS NULL THEN
+    RAISE EXCEPTION 'Unknown distance metric: %', metric;
+  END IF;
+
+  SELECT NULLIF(a.atttypmod, -1) INTO dimensions FROM pg_attribute a
+  WHERE a.attrelid = to_regclass(quote_ident(table_name)) AND a.attname = 'embedding' AND NOT a.attisdropped;
+  IF dimensions IS NULL THEN
+    RAISE EXCEPTION 'Column %.embedding must exist with fixed dimensions to be indexed', table_name;
+  END IF;
+
+  -- Same expression as embedding_distance_sql, so searches can use the index
+  target := CASE WHEN dimensions > ${MAX_INDEXED_VECTOR_DIMENSIONS}
+    THEN format('(embedding::halfvec(%s)) halfvec_%s', dimensions, ops)
+    ELSE 'embedding vector_' || ops END;
+
+  IF method = 'hnsw' THEN
+    IF params ? 'm' THEN
+      settings := settings || format('m = %s', (params->>'m')::int);
+    END IF;
+    IF params ? 'ef_construction' THEN
+      settings := settings || format('ef_construction = %s', (params->>'ef_construction')::int);
+    END IF;
+  ELSIF params ? 'lists' THEN
+    settings := settings || format('lists = %s', (params->>'lists')::int);
+  ELSE
+    -- pgvector's guidance: rows / 1000 up to 1M rows, sqrt(rows) above
+    EXECUTE format('SELECT count(*) FROM %I', table_name) INTO row_count;
+    settings := settings || format('lists = %s', GREATEST(1,
+      CASE WHEN row_count > 1000000 THEN floor(sqrt(row_count)) ELSE row_count / 1000 END)::int);
+  END IF;
+
+  IF replace_existing THEN
+    EXECUTE format('DROP INDEX IF EXISTS %I', index_name);
+  END IF;
+
+  EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I USING %s (%s)%s',
+    index_name, table_name, method, target,
+    CASE WHEN cardinality(settings) > 0 THEN ' WITH (' || array_to_string(settings, ', ') || ')' ELSE '' END);
+
+  RETURN (
+    SELECT jsonb_build_object('name', i.relname, 'method', am.amname, 'definition', pg_get_indexdef(i.oid))
+    FROM pg_class i JOIN pg_am am ON am.oid = i.relam
+    WHERE i.oid = to_regclass(quote_ident(index_name))
+  );
+END;
+$$;
+
+-- Runs DDL, so keep it to the service role
+REVOKE EXECUTE ON FUNCTION create_embedding_index FROM PUBLIC, anon, authenticated;`;
+
+// Read by SchemaClient.verify()
+const INSPECT_FUNCTION_SQL = `-- Reads the system catalogs only: the pgvector version, the table's embedding
+-- column, indexes and RLS state, and which of the given functions exist.
+CREATE OR REPLACE FUNCTION inspect_embeddings_table(
+  table_name text,
+  function_names text[] DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  WITH target AS (
+    SELECT to_regclass(quote_ident(table_name)) AS oid
+  )
+  SELECT jsonb_build_object(
+    'extension', (SELECT extversion FROM pg_extension WHERE extname = 'vector'),
+    'table_exists', (SELECT oid IS NOT NULL FROM target),
+    'rls_enabled', (SELECT relrowsecurity FROM pg_class WHERE oid = (SELECT oid FROM target)),
+    'policies', (SELECT count(*) FROM pg_policy WHERE polrelid = (SELECT oid FROM target)),
+    'embedding_type', (
+      SELECT t.typname FROM pg_attribute a JOIN pg_type t ON t.oid = a.atttypid
+      WHERE a.attrelid = (SELECT oid FROM target) AND a.attname = 'embedding' AND NOT a.attisdropped
+    ),
+    'embedding_dimensions', (
+      SELECT NULLIF(a.atttypmod, -1) FROM pg_attribute a
+      WHERE a.attrelid = (SELECT oid FROM target) AND a.attname = 'embedding' AND NOT a.attisdropped
+    ),
+    'indexes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', i.relname, 'method', am.amname, 'definition', pg_get_indexdef(i.oid)))
+      FROM pg_index x
+      JOIN pg_class i ON i.oid = x.indexrelid
+      JOIN pg_am am ON am.oid = i.relam
+      WHERE x.indrelid = (SELECT oid FROM target)
+    ), '[]'::jsonb),
+    'functions', COALESCE((
+      SELECT jsonb_agg(DISTINCT p.proname)
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      WHERE n.nspname = 'public' AND p.proname = ANY(function_names)
+    ), '[]'::jsonb)
+  );
+$$;`;
@@ -0,0 +1,2 @@
+export { SchemaClient } from "./SchemaClient";
+export { generateSchema } from "./generate";
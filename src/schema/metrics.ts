@@ -0,0 +1,32 @@
+import type { DistanceMetric } from "../types";
+
+export interface MetricDefinition {
+  // pgvector distance operator
+  operator: string;
+  // Index operator classes for vector and halfvec columns
+  opsClass: string;
+  halfvecOpsClass: string;
+}
+
+export const METRICS: Record<DistanceMetric, MetricDefinition> = {
+  cosine: {
+    operator: "<=>",
+    opsClass: "vector_cosine_ops",
+    halfvecOpsClass: "halfvec_cosine_ops",
+  },
+  inner_product: {
+    operator: "<#>",
+    opsClass: "vector_ip_ops",
+    halfvecOpsClass: "halfvec_ip_ops",
+  },
+  l2: {
+    operator: "<->",
+    opsClass: "vector_l2_ops",
+    halfvecOpsClass: "halfvec_l2_ops",
+  },
+};
+
+// pgvector can index `vector` columns up to this many dimensions; larger
+// embeddings are indexed through a halfvec expression
+export const MAX_INDEXED_VECTOR_DIMENSIONS = 2000;
+export const MAX_INDEXED_HALFVEC_DIMENSIONS = 4000;
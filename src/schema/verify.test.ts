@@ -0,0 +1,189 @@
+import { describe, it, expect, vi } from "vitest";
+import { SchemaClient } from "./SchemaClient";
+import { HashEmbeddingProvider } from "../embeddings/providers";
+import { DatabaseError } from "../types/errors";
+import type { TableInspection, VerifyReport } from "../types";
+
+const healthy: TableInspection = {
+  extension: "0.8.0",
+  table_exists: true,
+  rls_enabled: true,
+  policies: 2,
+  embedding_type: "vector",
+  embedding_dimensions: 384,
+  indexes: [
+    {
+      name: "documents_embedding_idx",
+      method: "hnsw",
+      definition:
+        "CREATE INDEX documents_embedding_idx ON public.documents USING hnsw (embedding vector_cosine_ops)",
+    },
+  ],
+  functions: [
+    "match_documents",
+    "match_documents_filtered",
+    "match_documents_page",
+    "match_documents_text",
+    "compile_filter",
+  ],
+};
+
+function createSchema(result: { data?: unknown; error?: unknown }) {
+  const supabaseClient = {
+    rpc: vi.fn().mockResolvedValue({ data: null, error: null, ...result }),
+  };
+  const schema = new SchemaClient({
+    supabaseClient: supabaseClient as any,
+    provider: new HashEmbeddingProvider("hash", { dimensions: 384 }),
+    table: "documents",
+  });
+  return { schema, supabaseClient };
+}
+
+function check(report: VerifyReport, name: string) {
+  return report.checks.find((c) => c.name === name);
+}
+
+describe("SchemaClient.verify", () => {
+  it("should pass a healthy setup", async () => {
+    const { schema, supabaseClient } = createSchema({ data: healthy });
+    const report = await schema.verify();
+
+    expect(supabaseClient.rpc).toHaveBeenCalledWith(
+      "inspect_embeddings_table",
+      {
+        table_name: "documents",
+        function_names: [
+          "match_documents",
+          "match_documents_filtered",
+          "match_documents_page",
+          "match_documents_text",
+          "compile_filter",
+        ],
+      }
+    );
+    expect(report.ok).toBe(true);
+    expect(report.dimensions).toBe(384);
+    expect(report.checks.map((c) => [c.name, c.status])).toEqual([
+      ["extension", "pass"],
+      ["table", "pass"],
+      ["embedding_column", "pass"],
+      ["dimensions", "pass"],
+      ["index", "pass"],
+      ["rls", "pass"],
+      ["functions", "pass"],
+    ]);
+  });
+
+  it("should fail on a dimension mismatch with a fix", async () => {
+    const { schema } = createSchema({
+      data: { ...healthy, embedding_dimensions: 1536 },
+    });
+    const report = await schema.verify();
+
+    expect(report.ok).toBe(false);
+    expect(check(report, "dimensions")).toMatchObject({
+      status: "fail",
+      message: expect.stringContaining("1536 dimensions"),
+      fix: expect.stringContaining("vector(384)"),
+    });
+  });
+
+  it("should report a missing extension, table and functions", async () => {
+    const { schema } = createSchema({
+      data: {
+        ...healthy,
+        extension: null,
+        table_exists: false,
+        functions: ["compile_filter"],
+      },
+    });
+    const report = await schema.verify({ table: "articles" });
+
+    expect(report.ok).toBe(false);
+    expect(check(report, "extension")).toMatchObject({
+      status: "fail",
+      fix: "CREATE EXTENSION IF NOT EXISTS vector;",
+    });
+    expect(check(report, "table")).toMatchObject({
+      status: "fail",
+      message: 'Table "articles" does not exist',
+    });
+    expect(check(report, "embedding_column")).toBeUndefined();
+    expect(check(report, "functions")?.message).toBe(
+      "Missing RPC functions: match_documents, match_documents_filtered, match_documents_page, match_documents_text"
+    );
+  });
+
+  it("should warn when there is no vector index", async () => {
+    const { schema } = createSchema({ data: { ...healthy, indexes: [] } });
+    const report = await schema.verify();
+
+    expect(report.ok).toBe(true);
+    expect(check(report, "index")).toMatchObject({
+      status: "warn",
+      fix: "CREATE INDEX IF NOT EXISTS documents_embedding_idx ON documents USING hnsw (embedding vector_cosine_ops);",
+    });
+  });
+
+  it("should warn when the index serves another metric", async () => {
+    const { schema } = createSchema({ data: healthy });
+    const report = await schema.verify({ metric: "l2" });
+
+    expect(check(report, "index")).toMatchObject({
+      status: "warn",
+      message: expect.stringContaining("does not serve l2 queries"),
+      fix: "DROP INDEX documents_embedding_idx;\nCREATE INDEX IF NOT EXISTS documents_embedding_idx ON documents USING hnsw (embedding vector_l2_ops);",
+    });
+  });
+
+  it("should compare RLS against the expected state", async () => {
+    const disabled = { ...healthy, rls_enabled: false, policies: 0 };
+
+    const { schema: unset } = createSchema({ data: disabled });
+    expect(check(await unset.verify(), "rls")?.status).toBe("warn");
+
+    const { schema: expected } = createSchema({ data: disabled });
+    const report = await expected.verify({ rls: true });
+    expect(report.ok).toBe(false);
+    expect(check(report, "rls")).toMatchObject({
+      status: "fail",
+      fix: "ALTER TABLE documents ENABLE ROW LEVEL SECURITY;",
+    });
+
+    const { schema: off } = createSchema({ data: disabled });
+    expect(check(await off.verify({ rls: false }), "rls")?.status).toBe("pass");
+
+    const { schema: noPolicies } = createSchema({
+      data: { ...healthy, policies: 0 },
+    });
+    expect(check(await noPolicies.verify(), "rls")?.status).toBe("warn");
+  });
+
+  it("should report a missing inspect function instead of throwing", async () => {
+    const { schema } = createSchema({
+      error: {
+        code: "PGRST202",
+        message:
+          "Could not find the function public.inspect_embeddings_table in the schema cache",
+      },
+    });
+    const report = await schema.verify();
+
+    expect(report.ok).toBe(false);
+    expect(report.checks).toEqual([
+      expect.objectContaining({ name: "inspect", status: "fail" }),
+    ]);
+  });
+
+  it("should throw DatabaseError on other errors", async () => {
+    const { schema } = createSchema({
+      error: { message: "connection refused" },
+    });
+
+    await expect(schema.verify()).rejects.toThrow(DatabaseError);
+    await expect(schema.verify()).rejects.toThrow(
+      "Verify failed: connection refused"
+    );
+  });
+});
@@ -0,0 +1,281 @@
+import type {
+  DistanceMetric,
+  TableInspection,
+  VerifyCheck,
+  VerifyReport,
+} from "../types";
+import { MAX_INDEXED_HALFVEC_DIMENSIONS, METRICS } from "./metrics";
+import { quoteIdent, vectorIndexStatement } from "./generate";
+
+export const DEFAULT_INSPECT_RPC = "inspect_embeddings_table";
+
+// The RPCs EmbeddingsClient calls
+export const DEFAULT_VERIFY_FUNCTIONS = [
+  "match_documents",
+  "match_documents_filtered",
+  "match_documents_page",
+  "match_documents_text",
+  "compile_filter",
+];
+
+const VECTOR_INDEX_METHODS = ["hnsw", "ivfflat"];
+const SETUP_FIX =
+  "Apply a migration from ai.schema.generate() or run sql/setup.sql";
+
+export interface VerifyExpectations {
+  table: string;
+  dimensions: number;
+  metric: DistanceMetric;
+  functions: string[];
+  rls?: boolean;
+}
+
+export function inspectFunctionMissing(inspectRpc: string): VerifyCheck {
+  return {
+    name: "inspect",
+    status: "fail",
+    message: `The ${inspectRpc} function is missing, so the setup cannot be inspected`,
+    fix: SETUP_FIX,
+  };
+}
+
+// Turns the catalog snapshot from inspect_embeddings_table into checks
+export function buildVerifyReport(
+  inspection: TableInspection,
+  expected: VerifyExpectations
+): VerifyReport {
+  const table = quoteIdent(expected.table);
+  const checks: VerifyCheck[] = [];
+
+  checks.push(
+    inspection.extension
+      ? {
+          name: "extension",
+          status: "pass",
+          message: `pgvector ${inspection.extension} is installed`,
+        }
+      : {
+          name: "extension",
+          status: "fail",
+          message: "The pgvector extension is not installed",
+          fix: "CREATE EXTENSION IF NOT EXISTS vector;",
+        }
+  );
+
+  if (!inspection.table_exists) {
+    checks.push({
+      name: "table",
+      status: "fail",
+      message: `Table "${expected.table}" does not exist`,
+      fix: SETUP_FIX,
+    });
+  } else {
+    checks.push(
+      {
+        name: "table",
+        status: "pass",
+        message: `Table "${expected.table}" exists`,
+      },
+      ...columnChecks(inspection, expected, table),
+      rlsCheck(inspection, expected, table)
+    );
+  }
+
+  const missing = expected.functions.filter(
+    (name) => !inspection.functions.includes(name)
+  );
+  checks.push(
+    missing.length === 0
+      ? {
+          name: "functions",
+          status: "pass",
+          message: `Found ${expected.functions.join(", ")}`,
+        }
+      : {
+          name: "functions",
+          status: "fail",
+          message: `Missing RPC functions: ${missing.join(", ")}`,
+          fix: SETUP_FIX,
+        }
+  );
+
+  return {
+    ok: checks.every((check) => check.status !== "fail"),
+    table: expected.table,
+    dimensions: expected.dimensions,
+    checks,
+  };
+}
+
+function columnChecks(
+  inspection: TableInspection,
+  expected: VerifyExpectations,
+  table: string
+): VerifyCheck[] {
+  const { embedding_type: type, embedding_dimensions: dimensions } = inspection;
+  const columnType = `vector(${expected.dimensions})`;
+
+  if (type !== "vector" && type !== "halfvec") {
+    return [
+      {
+        name: "embedding_column",
+        status: "fail",
+        message: type
+          ? `Column "embedding" is ${type}, not a pgvector type`
+          : `Table "${expected.table}" has no embedding column`,
+        fix: type
+          ? `ALTER TABLE ${table} ALTER COLUMN embedding TYPE ${columnType} USING NULL;`
+          : `ALTER TABLE ${table} ADD COLUMN embedding ${columnType};`,
+      },
+    ];
+  }
+
+  const checks: VerifyCheck[] = [
+    {
+      name: "embedding_column",
+      status: "pass",
+      message: `Column "embedding" is ${type}${
+        dimensions ? `(${dimensions})` : ""
+      }`,
+    },
+  ];
+
+  if (dimensions === null) {
+    checks.push({
+      name: "dimensions",
+      status: "warn",
+      message:
+        'Column "embedding" has no fixed dimensions, so it cannot be indexed',
+      fix: `ALTER TABLE ${table} ALTER COLUMN embedding TYPE ${columnType};`,
+    });
+  } else if (dimensions !== expected.dimensions) {
+    checks.push({
+      name: "dimensions",
+      status: "fail",
+      message: `Column "embedding" holds ${dimensions} dimensions but the provider produces ${expected.dimensions}`,
+      fix: `Use a model with ${dimensions} dimensions, or change the column and re-embed existing rows: ALTER TABLE ${table} ALTER COLUMN embedding TYPE ${columnType} USING NULL;`,
+    });
+  } else {
+    checks.push({
+      name: "dimensions",
+      status: "pass",
+      message: `Dimensions match the provider (${dimensions})`,
+    });
+  }
+
+  checks.push(indexCheck(inspection, expected));
+
+  return checks;
+}
+
+function indexCheck(
+  inspection: TableInspection,
+  expected: VerifyExpectations
+): VerifyCheck {
+  const { opsClass, halfvecOpsClass } = METRICS[expected.metric];
+  const vectorIndexes = inspection.indexes.filter(
+    (index) =>
+      VECTOR_INDEX_METHODS.includes(index.method) &&
+      index.definition.includes("embedding")
+  );
+  const matching = vectorIndexes.find(
+    (index) =>
+      index.definition.includes(opsClass) ||
+      index.definition.includes(halfvecOpsClass)
+  );
+
+  if (matching) {
+    return {
+      name: "index",
+      status: "pass",
+      message: `Vector index ${matching.name} uses ${matching.method} for ${expected.metric}`,
+    };
+  }
+
+  const create =
+    expected.dimensions <= MAX_INDEXED_HALFVEC_DIMENSIONS
+      ? vectorIndexStatement({
+          table: expected.table,
+          dimensions: expected.dimensions,
+          metric: expected.metric,
+          index: "hnsw",
+        })
+      : undefined;
+
+  // An index built for another metric is never used by these queries
+  const [other] = vectorIndexes;
+  if (other) {
+    return {
+      name: "index",
+      status: "warn",
+      message: `Vector index ${other.name} does not serve ${expected.metric} queries, so searches scan the whole table`,
+      ...(create && {
+        fix: `DROP INDEX ${quoteIdent(other.name)};\n${create}`,
+      }),
+    };
+  }
+
+  return {
+    name: "index",
+    status: "warn",
+    message: "No vector index on embedding; searches scan the whole table",
+    ...(create && { fix: create }),
+  };
+}
+
+function rlsCheck(
+  inspection: TableInspection,
+  expected: VerifyExpectations,
+  table: string
+): VerifyCheck {
+  const enabled = inspection.rls_enabled === true;
+
+  if (expected.rls !== undefined && expected.rls !== enabled) {
+    return {
+      name: "rls",
+      status: "fail",
+      message: `Row level security is ${
+        enabled ? "enabled" : "disabled"
+      } but expected ${expected.rls ? "enabled" : "disabled"}`,
+      fix: `ALTER TABLE ${table} ${
+        expected.rls ? "ENABLE" : "DISABLE"
+      } ROW LEVEL SECURITY;`,
+    };
+  }
+
+  if (!enabled && expected.rls === false) {
+    return {
+      name: "rls",
+      status: "pass",
+      message: "Row level security is disabled as expected",
+    };
+  }
+
+  if (!enabled) {
+    return {
+      name: "rls",
+      status: "warn",
+      message:
+        "Row level security is disabled; anyone with the anon key can read the table",
+      fix: `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;`,
+    };
+  }
+
+  if (inspection.policies === 0) {
+    return {
+      name: "rls",
+      status: "warn",
+      message:
+        "Row level security is enabled without policies; only the service role can access the table",
+      fix: `Add policies with CREATE POLICY ... ON ${table}, or use the service role key`,
+    };
+  }
+
+  return {
+    name: "rls",
+    status: "pass",
+    message: `Row level security is enabled with ${inspection.policies} ${
+      inspection.policies === 1 ? "policy" : "policies"
+    }`,
+  };
+}
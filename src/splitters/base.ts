@@ -0,0 +1,181 @@
+import type { TextChunk, TextSplitter, TextSplitterOptions } from "../types";
+import { ConfigurationError } from "../types/errors";
+
+export interface Span {
+  start: number;
+  end: number;
+}
+
+const characterLength = (text: string) => text.length;
+
+// Splitters cut the text into contiguous spans no longer than chunkSize, then
+// merge neighbouring spans into chunks. Chunks are always slices of the source
+// text, so their offsets stay exact.
+export abstract class BaseTextSplitter implements TextSplitter {
+  protected chunkSize: number;
+  protected chunkOverlap: number;
+  protected lengthFunction: (text: string) => number;
+
+  constructor(options: TextSplitterOptions = {}) {
+    this.chunkSize = options.chunkSize ?? 1000;
+    // A fifth of the chunk, so small chunk sizes work without an overlap
+    this.chunkOverlap =
+      options.chunkOverlap ?? Math.min(200, Math.floor(this.chunkSize / 5));
+    this.lengthFunction =
+      options.lengthFunction ??
+      (options.tokenizer
+        ? options.tokenizer.count.bind(options.tokenizer)
+        : characterLength);
+
+    if (!Number.isInteger(this.chunkSize) || this.chunkSize < 1) {
+      throw new ConfigurationError("chunkSize must be a positive integer");
+    }
+
+    if (this.chunkOverlap < 0 || this.chunkOverlap >= this.chunkSize) {
+      throw new ConfigurationError(
+        "chunkOverlap must be at least 0 and smaller than chunkSize"
+      );
+    }
+  }
+
+  abstract split(text: string): TextChunk[];
+
+  // Recursively cuts [start, end) at the first separator that occurs in it,
+  // falling back to the next separators for pieces that are still too long.
+  // Cuts happen before each separator, so separators lead the next span.
+  protected splitRecursive(
+    text: string,
+    start: number,
+    end: number,
+    separators: string[]
+  ): Span[] {
+    if (this.measure(text, start, end) <= this.chunkSize) {
+      return [{ start, end }];
+    }
+
+    const index = separators.findIndex(
+      (separator) =>
+        separator === "" || text.slice(start, end).includes(separator)
+    );
+    const separator = separators[index] ?? "";
+    const remaining = separators.slice(index + 1);
+
+    if (separator === "") {
+      return this.splitCharacters(text, start, end);
+    }
+
+    const spans: Span[] = [];
+    let pieceStart = start;
+    let cut = text.indexOf(separator, start + 1);
+
+    while (cut !== -1 && cut < end) {
+      spans.push(...this.splitRecursive(text, pieceStart, cut, remaining));
+      pieceStart = cut;
+      cut = text.indexOf(separator, cut + separator.length);
+    }
+    spans.push(...this.splitRecursive(text, pieceStart, end, remaining));
+
+    return spans.filter((span) => span.end > span.start);
+  }
+
+  protected splitCharacters(text: string, start: number, end: number): Span[] {
+    const spans: Span[] = [];
+    let spanStart = start;
+
+    while (spanStart < end) {
+      // Binary search for the longest span that still fits, which keeps
+      // the number of (possibly tokenizing) measurements logarithmic
+      let low = spanStart + 1;
+      let high = end;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (this.measure(text, spanStart, mid) <= this.chunkSize) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+
+      spans.push({ start: spanStart, end: low });
+      spanStart = low;
+    }
+
+    return spans;
+  }
+
+  protected mergeSpans(
+    text: string,
+    spans: Span[],
+    metadata?: Record<string, any>
+  ): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    let current: Span[] = [];
+
+    const emit = () => {
+      const chunk = this.toChunk(
+        text,
+        current[0].start,
+        current[current.length - 1].end,
+        metadata
+      );
+      if (chunk) chunks.push(chunk);
+    };
+
+    for (const span of spans) {
+      if (
+        current.length > 0 &&
+        this.measure(text, current[0].start, span.end) > this.chunkSize
+      ) {
+        emit();
+
+        // Carry trailing spans over as overlap while they fit
+        const lastEnd = current[current.length - 1].end;
+        let overlapStart = current.length;
+        while (
+          overlapStart > 0 &&
+          this.measure(text, current[overlapStart - 1].start, lastEnd) <=
+            this.chunkOverlap &&
+          this.measure(text, current[overlapStart - 1].start, span.end) <=
+            this.chunkSize
+        ) {
+          overlapStart--;
+        }
+        current = current.slice(overlapStart);
+      }
+
+      current.push(span);
+    }
+
+    if (current.length > 0) {
+      emit();
+    }
+
+    return chunks;
+  }
+
+  protected measure(text: string, start: number, end: number): number {
+    return this.lengthFunction(text.slice(start, end));
+  }
+
+  // Trims surrounding whitespace while keeping offsets aligned with the text
+  private toChunk(
+    text: string,
+    start: number,
+    end: number,
+    metadata?: Record<string, any>
+  ): TextChunk | undefined {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+
+    if (start === end) {
+      return undefined;
+    }
+
+    return {
+      text: text.slice(start, end),
+      start,
+      end,
+      ...(metadata && { metadata }),
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import type {
+  CodeLanguage,
+  CodeTextSplitterOptions,
+  TextChunk,
+} from "../types";
+import { BaseTextSplitter } from "./base";
+
+// Separators ordered from the coarsest syntactic boundary to the finest
+const LANGUAGE_SEPARATORS: Record<CodeLanguage, string[]> = {
+  javascript: [
+    "\nexport ",
+    "\nclass ",
+    "\nfunction ",
+    "\nconst ",
+    "\nlet ",
+    "\n\n",
+    "\n",
+    " ",
+    "",
+  ],
+  typescript: [
+    "\nexport ",
+    "\nclass ",
+    "\ninterface ",
+    "\ntype ",
+    "\nfunction ",
+    "\nconst ",
+    "\n\n",
+    "\n",
+    " ",
+    "",
+  ],
+  python: ["\nclass ", "\ndef ", "\n    def ", "\n\n", "\n", " ", ""],
+  go: ["\nfunc ", "\ntype ", "\nvar ", "\nconst ", "\n\n", "\n", " ", ""],
+  rust: [
+    "\nfn ",
+    "\npub fn ",
+    "\nimpl ",
+    "\nstruct ",
+    "\nenum ",
+    "\nmod ",
+    "\n\n",
+    "\n",
+    " ",
+    "",
+  ],
+  java: [
+    "\nclass ",
+    "\npublic ",
+    "\nprotected ",
+    "\nprivate ",
+    "\n\n",
+    "\n",
+    " ",
+    "",
+  ],
+  ruby: ["\nclass ", "\nmodule ", "\ndef ", "\n\n", "\n", " ", ""],
+  php: ["\nclass ", "\nfunction ", "\n\n", "\n", " ", ""],
+};
+
+export class CodeTextSplitter extends BaseTextSplitter {
+  private separators: string[];
+
+  constructor(options: CodeTextSplitterOptions) {
+    super(options);
+    this.separators = LANGUAGE_SEPARATORS[options.language];
+  }
+
+  split(text: string): TextChunk[] {
+    return this.mergeSpans(
+      text,
+      this.splitRecursive(text, 0, text.length, this.separators)
+    );
+  }
+}
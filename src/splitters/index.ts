@@ -0,0 +1,24 @@
+import type { TextSplitter, TextSplitterConfig } from "../types";
+import { RecursiveCharacterTextSplitter } from "./recursive";
+import { SentenceTextSplitter } from "./sentence";
+import { MarkdownTextSplitter } from "./markdown";
+import { CodeTextSplitter } from "./code";
+
+export { BaseTextSplitter } from "./base";
+export { RecursiveCharacterTextSplitter } from "./recursive";
+export { SentenceTextSplitter } from "./sentence";
+export { MarkdownTextSplitter } from "./markdown";
+export { CodeTextSplitter } from "./code";
+
+export function createTextSplitter(config: TextSplitterConfig): TextSplitter {
+  switch (config.type) {
+    case "recursive":
+      return new RecursiveCharacterTextSplitter(config);
+    case "sentence":
+      return new SentenceTextSplitter(config);
+    case "markdown":
+      return new MarkdownTextSplitter(config);
+    case "code":
+      return new CodeTextSplitter(config);
+  }
+}
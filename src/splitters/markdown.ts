@@ -0,0 +1,54 @@
+import type { TextChunk } from "../types";
+import { BaseTextSplitter } from "./base";
+
+const HEADING_PATTERN = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/gm;
+const SECTION_SEPARATORS = ["\n\n", "\n", " ", ""];
+
+// Splits at headings first so chunks never span two sections; each chunk
+// records the heading path it belongs to in `metadata.headings`.
+export class MarkdownTextSplitter extends BaseTextSplitter {
+  split(text: string): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    const path: string[] = [];
+    let sectionStart = 0;
+    let sectionHeadings: string[] = [];
+
+    const flush = (end: number) => {
+      const spans = this.splitRecursive(
+        text,
+        sectionStart,
+        end,
+        SECTION_SEPARATORS
+      );
+      const metadata =
+        sectionHeadings.length > 0 ? { headings: sectionHeadings } : undefined;
+      chunks.push(...this.mergeSpans(text, spans, metadata));
+    };
+
+    for (const match of text.matchAll(HEADING_PATTERN)) {
+      const index = match.index ?? 0;
+      if (this.isInsideCodeFence(text, index)) continue;
+
+      if (index > sectionStart) {
+        flush(index);
+      }
+
+      const level = match[1].length;
+      path.length = level - 1;
+      path[level - 1] = match[2];
+      sectionHeadings = path.filter((heading) => heading !== undefined);
+      sectionStart = index;
+    }
+
+    if (sectionStart < text.length) {
+      flush(text.length);
+    }
+
+    return chunks;
+  }
+
+  private isInsideCodeFence(text: string, index: number): boolean {
+    const fences = text.slice(0, index).match(/^(```|~~~)/gm);
+    return (fences?.length ?? 0) % 2 === 1;
+  }
+}
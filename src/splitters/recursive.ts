@@ -0,0 +1,20 @@
+import type { RecursiveTextSplitterOptions, TextChunk } from "../types";
+import { BaseTextSplitter } from "./base";
+
+export const DEFAULT_SEPARATORS = ["\n\n", "\n", " ", ""];
+
+export class RecursiveCharacterTextSplitter extends BaseTextSplitter {
+  protected separators: string[];
+
+  constructor(options: RecursiveTextSplitterOptions = {}) {
+    super(options);
+    this.separators = options.separators ?? DEFAULT_SEPARATORS;
+  }
+
+  split(text: string): TextChunk[] {
+    return this.mergeSpans(
+      text,
+      this.splitRecursive(text, 0, text.length, this.separators)
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import type { TextChunk } from "../types";
+import { BaseTextSplitter, type Span } from "./base";
+import { DEFAULT_SEPARATORS } from "./recursive";
+
+// A sentence runs up to terminal punctuation (plus closing quotes/brackets)
+// and the whitespace after it, or to the end of the text
+const SENTENCE_PATTERN = /[^.!?。！？]+(?:[.!?。！？]+["'”’)\]]*\s*|$)/g;
+
+export class SentenceTextSplitter extends BaseTextSplitter {
+  split(text: string): TextChunk[] {
+    const spans: Span[] = [];
+
+    for (const match of text.matchAll(SENTENCE_PATTERN)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (end > start) {
+        // Sentences longer than a chunk fall back to word boundaries
+        spans.push(
+          ...this.splitRecursive(text, start, end, DEFAULT_SEPARATORS)
+        );
+      }
+    }
+
+    return this.mergeSpans(text, spans);
+  }
+}
@@ -0,0 +1,251 @@
+import { describe, it, expect } from "vitest";
+import {
+  RecursiveCharacterTextSplitter,
+  SentenceTextSplitter,
+  MarkdownTextSplitter,
+  CodeTextSplitter,
+  createTextSplitter,
+} from "./index";
+import { ConfigurationError } from "../types/errors";
+import { loadTokenizer } from "../tokenizers";
+import type { TextChunk } from "../types";
+
+const expectAligned = (source: string, chunks: TextChunk[]) => {
+  for (const chunk of chunks) {
+    expect(source.slice(chunk.start, chunk.end)).toBe(chunk.text);
+  }
+};
+
+const lorem =
+  "Lorem ipsum dolor sit amet, consectetur adipiscing elit. Sed do eiusmod tempor incididunt ut labore et dolore magna aliqua.\n\n" +
+  "Ut enim ad minim veniam, quis nostrud exercitation ullamco laboris.\nNisi ut aliquip ex ea commodo consequat.";
+
+describe("RecursiveCharacterTextSplitter", () => {
+  it("should keep chunks within chunkSize and aligned with the source", () => {
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: 50,
+      chunkOverlap: 10,
+    });
+
+    const chunks = splitter.split(lorem);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(50);
+    }
+    expectAligned(lorem, chunks);
+  });
+
+  it("should prefer paragraph boundaries", () => {
+    const text = "First paragraph.\n\nSecond paragraph.";
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: 20,
+      chunkOverlap: 0,
+    });
+
+    expect(splitter.split(text).map((chunk) => chunk.text)).toEqual([
+      "First paragraph.",
+      "Second paragraph.",
+    ]);
+  });
+
+  it("should overlap consecutive chunks", () => {
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: 20,
+      chunkOverlap: 8,
+    });
+
+    const chunks = splitter.split("one two three four five six seven eight");
+
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+    }
+  });
+
+  it("should hard-cut text without separators", () => {
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: 4,
+      chunkOverlap: 0,
+    });
+
+    expect(splitter.split("abcdefghij").map((chunk) => chunk.text)).toEqual([
+      "abcd",
+      "efgh",
+      "ij",
+    ]);
+  });
+
+  it("should measure with a custom length function", () => {
+    const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: 3,
+      chunkOverlap: 0,
+      lengthFunction: words,
+    });
+
+    const chunks = splitter.split("a b c d e f g");
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual(["a b c", "d e f", "g"]);
+  });
+
+  it("should target a token count with a tokenizer", async () => {
+    const tokenizer = await loadTokenizer("text-embedding-3-small");
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: 16,
+      chunkOverlap: 4,
+      tokenizer,
+    });
+
+    const chunks = splitter.split(lorem);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(tokenizer.count(chunk.text)).toBeLessThanOrEqual(16);
+    }
+    expectAligned(lorem, chunks);
+  });
+
+  it("should return no chunks for blank text", () => {
+    expect(new RecursiveCharacterTextSplitter().split("  \n ")).toEqual([]);
+  });
+
+  it("should default the overlap to a fifth of small chunk sizes", () => {
+    const splitter = createTextSplitter({ type: "recursive", chunkSize: 100 });
+
+    const chunks = splitter.split(lorem);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(100);
+    }
+    expect(chunks[1].start).toBeLessThan(chunks[0].end);
+    expect(chunks[0].end - chunks[1].start).toBeLessThanOrEqual(20);
+    expectAligned(lorem, chunks);
+  });
+
+  it("should reject invalid sizes", () => {
+    expect(() => new RecursiveCharacterTextSplitter({ chunkSize: 0 })).toThrow(
+      ConfigurationError
+    );
+    expect(
+      () =>
+        new RecursiveCharacterTextSplitter({ chunkSize: 10, chunkOverlap: 10 })
+    ).toThrow(ConfigurationError);
+  });
+});
+
+describe("SentenceTextSplitter", () => {
+  it("should not break sentences that fit", () => {
+    const text = "The cat sat. The dog ran! Did the bird fly? It did.";
+    const splitter = new SentenceTextSplitter({
+      chunkSize: 26,
+      chunkOverlap: 0,
+    });
+
+    const chunks = splitter.split(text);
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      "The cat sat. The dog ran!",
+      "Did the bird fly? It did.",
+    ]);
+    expectAligned(text, chunks);
+  });
+
+  it("should fall back to words for long sentences", () => {
+    const text = "This sentence is much longer than the chunk size allows.";
+    const splitter = new SentenceTextSplitter({
+      chunkSize: 20,
+      chunkOverlap: 0,
+    });
+
+    const chunks = splitter.split(text);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(20);
+    }
+    expectAligned(text, chunks);
+  });
+});
+
+describe("MarkdownTextSplitter", () => {
+  const markdown = [
+    "Intro text.",
+    "",
+    "# Guide",
+    "",
+    "Welcome.",
+    "",
+    "## Install",
+    "",
+    "Run the installer.",
+    "",
+    "```sh",
+    "# not a heading",
+    "```",
+    "",
+    "## Usage",
+    "",
+    "Call the API.",
+  ].join("\n");
+
+  it("should split at headings and record the heading path", () => {
+    const splitter = new MarkdownTextSplitter({
+      chunkSize: 200,
+      chunkOverlap: 0,
+    });
+
+    const chunks = splitter.split(markdown);
+
+    expect(chunks).toHaveLength(4);
+    expect(chunks[0].metadata).toBeUndefined();
+    expect(chunks[1].metadata).toEqual({ headings: ["Guide"] });
+    expect(chunks[2].metadata).toEqual({ headings: ["Guide", "Install"] });
+    expect(chunks[2].text).toContain("# not a heading");
+    expect(chunks[3].metadata).toEqual({ headings: ["Guide", "Usage"] });
+    expect(chunks[3].text).toBe("## Usage\n\nCall the API.");
+    expectAligned(markdown, chunks);
+  });
+});
+
+describe("CodeTextSplitter", () => {
+  it("should split at top-level definitions", () => {
+    const code = [
+      "def first():",
+      "    return 1",
+      "",
+      "def second():",
+      "    return 2",
+    ].join("\n");
+    const splitter = new CodeTextSplitter({
+      language: "python",
+      chunkSize: 30,
+      chunkOverlap: 0,
+    });
+
+    const chunks = splitter.split(code);
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      "def first():\n    return 1",
+      "def second():\n    return 2",
+    ]);
+    expectAligned(code, chunks);
+  });
+});
+
+describe("createTextSplitter", () => {
+  it("should create splitters from config", () => {
+    expect(createTextSplitter({ type: "recursive" })).toBeInstanceOf(
+      RecursiveCharacterTextSplitter
+    );
+    expect(createTextSplitter({ type: "sentence" })).toBeInstanceOf(
+      SentenceTextSplitter
+    );
+    expect(createTextSplitter({ type: "markdown" })).toBeInstanceOf(
+      MarkdownTextSplitter
+    );
+    expect(
+      createTextSplitter({ type: "code", language: "typescript" })
+    ).toBeInstanceOf(CodeTextSplitter);
+  });
+});
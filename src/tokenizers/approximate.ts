@@ -0,0 +1,14 @@
+import type { Tokenizer } from "../types";
+
+// Character-count heuristic for models without a bundled tokenizer
+export class ApproximateTokenizer implements Tokenizer {
+  constructor(private charactersPerToken: number = 4) {}
+
+  count(text: string): number {
+    return Math.ceil(text.length / this.charactersPerToken);
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    return text.slice(0, maxTokens * this.charactersPerToken);
+  }
+}
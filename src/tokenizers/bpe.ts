@@ -0,0 +1,77 @@
+import { Tiktoken, type TiktokenBPE } from "js-tiktoken/lite";
+import type { Tokenizer } from "../types";
+import { ConfigurationError } from "../types/errors";
+import { ApproximateTokenizer } from "./approximate";
+
+// Byte-pair encoding tokenizer backed by a tiktoken rank table. The ranks may
+// be passed in or loaded on demand; until a loader has delivered them, count
+// and truncate fall back to the character approximation. The encoder is built
+// on first use since parsing the ranks takes a noticeable moment.
+export class BpeTokenizer implements Tokenizer {
+  private ranks: TiktokenBPE | undefined;
+  private loading: Promise<void> | undefined;
+  private encoder: Tiktoken | undefined;
+  private fallback = new ApproximateTokenizer();
+
+  constructor(private source: TiktokenBPE | (() => Promise<TiktokenBPE>)) {
+    if (typeof source !== "function") {
+      this.ranks = source;
+    }
+  }
+
+  load(): Promise<void> {
+    const source = this.source;
+    if (this.ranks || typeof source !== "function") {
+      return Promise.resolve();
+    }
+
+    this.loading ??= source().then(
+      (ranks) => {
+        this.ranks = ranks;
+      },
+      (error) => {
+        // Let the next call try again
+        this.loading = undefined;
+        throw error;
+      }
+    );
+    return this.loading;
+  }
+
+  encode(text: string): number[] {
+    // Special tokens such as <|endoftext|> are encoded as plain text
+    return this.getEncoder().encode(text, [], []);
+  }
+
+  decode(tokens: number[]): string {
+    return this.getEncoder().decode(tokens);
+  }
+
+  count(text: string): number {
+    return this.ranks ? this.encode(text).length : this.fallback.count(text);
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    if (!this.ranks) {
+      return this.fallback.truncate(text, maxTokens);
+    }
+
+    const tokens = this.encode(text);
+    if (tokens.length <= maxTokens) {
+      return text;
+    }
+    // Drop a character split across the cut rather than emit U+FFFD
+    return this.decode(tokens.slice(0, maxTokens)).replace(/�+$/, "");
+  }
+
+  private getEncoder(): Tiktoken {
+    if (!this.ranks) {
+      throw new ConfigurationError(
+        "The tokenizer's ranks are not loaded yet. Await tokenizer.load() first."
+      );
+    }
+
+    this.encoder ??= new Tiktoken(this.ranks);
+    return this.encoder;
+  }
+}
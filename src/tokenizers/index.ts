@@ -0,0 +1,44 @@
+import type { Tokenizer } from "../types";
+import { BpeTokenizer } from "./bpe";
+import { ApproximateTokenizer } from "./approximate";
+
+export { BpeTokenizer } from "./bpe";
+export { ApproximateTokenizer } from "./approximate";
+
+// Input limits of the OpenAI embedding models, which all use cl100k_base
+const OPENAI_MAX_INPUT_TOKENS: Record<string, number> = {
+  "text-embedding-3-small": 8191,
+  "text-embedding-3-large": 8191,
+  "text-embedding-ada-002": 8191,
+};
+
+let cl100k: BpeTokenizer | undefined;
+let approximate: ApproximateTokenizer | undefined;
+
+// The rank table is several megabytes, so it is only imported on load()
+async function loadCl100kRanks() {
+  return (await import("js-tiktoken/ranks/cl100k_base")).default;
+}
+
+// Returns the bundled BPE tokenizer for OpenAI embedding models and a
+// character-based approximation for every other model. The BPE tokenizer
+// estimates too until its load() has resolved; loadTokenizer() waits for it.
+export function getTokenizer(model: string): Tokenizer {
+  if (model in OPENAI_MAX_INPUT_TOKENS) {
+    cl100k ??= new BpeTokenizer(loadCl100kRanks);
+    return cl100k;
+  }
+
+  approximate ??= new ApproximateTokenizer();
+  return approximate;
+}
+
+export async function loadTokenizer(model: string): Promise<Tokenizer> {
+  const tokenizer = getTokenizer(model);
+  await tokenizer.load?.();
+  return tokenizer;
+}
+
+export function getModelMaxInputTokens(model: string): number | undefined {
+  return OPENAI_MAX_INPUT_TOKENS[model];
+}
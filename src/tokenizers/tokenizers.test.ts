@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import cl100kBase from "js-tiktoken/ranks/cl100k_base";
+import {
+  ApproximateTokenizer,
+  BpeTokenizer,
+  getModelMaxInputTokens,
+  getTokenizer,
+  loadTokenizer,
+} from "./index";
+import { ConfigurationError } from "../types/errors";
+
+describe("getTokenizer", () => {
+  it("should return the bundled BPE tokenizer for OpenAI models", () => {
+    const tokenizer = getTokenizer("text-embedding-3-small");
+
+    expect(tokenizer).toBeInstanceOf(BpeTokenizer);
+    expect(getTokenizer("text-embedding-ada-002")).toBe(tokenizer);
+  });
+
+  it("should fall back to the approximate tokenizer", () => {
+    expect(getTokenizer("nomic-embed-text")).toBeInstanceOf(
+      ApproximateTokenizer
+    );
+  });
+
+  it("should resolve once the BPE ranks are loaded", async () => {
+    const tokenizer = await loadTokenizer("text-embedding-3-small");
+
+    expect(tokenizer.count("hello world")).toBe(2);
+  });
+});
+
+describe("getModelMaxInputTokens", () => {
+  it("should know the OpenAI embedding limits", () => {
+    expect(getModelMaxInputTokens("text-embedding-3-large")).toBe(8191);
+    expect(getModelMaxInputTokens("custom-model")).toBeUndefined();
+  });
+});
+
+describe("BpeTokenizer", () => {
+  const tokenizer = getTokenizer("text-embedding-3-small") as BpeTokenizer;
+
+  beforeAll(() => tokenizer.load());
+
+  it("should count cl100k_base tokens", () => {
+    expect(tokenizer.encode("hello world")).toEqual([15339, 1917]);
+    expect(tokenizer.count("hello world")).toBe(2);
+    expect(tokenizer.count("")).toBe(0);
+  });
+
+  it("should encode special tokens as plain text", () => {
+    expect(tokenizer.count("<|endoftext|>")).toBeGreaterThan(1);
+  });
+
+  it("should truncate to a token prefix", () => {
+    const text = "The quick brown fox jumps over the lazy dog";
+
+    expect(tokenizer.truncate(text, 3)).toBe("The quick brown");
+    expect(tokenizer.truncate(text, 100)).toBe(text);
+  });
+
+  it("should estimate until ranks from a loader arrive", async () => {
+    let resolve!: (ranks: typeof cl100kBase) => void;
+    const lazy = new BpeTokenizer(
+      () => new Promise((done) => (resolve = done))
+    );
+
+    const loading = lazy.load();
+    expect(lazy.count("hello world")).toBe(3);
+    expect(() => lazy.encode("hello")).toThrow(ConfigurationError);
+
+    resolve(cl100kBase);
+    await loading;
+    expect(lazy.count("hello world")).toBe(2);
+  });
+
+  it("should retry a failed load", async () => {
+    let calls = 0;
+    const lazy = new BpeTokenizer(async () => {
+      calls++;
+      if (calls === 1) {
+        throw new Error("offline");
+      }
+      return cl100kBase;
+    });
+
+    await expect(lazy.load()).rejects.toThrow("offline");
+    await lazy.load();
+    expect(lazy.count("hello world")).toBe(2);
+  });
+
+  it("should not leave a partial character after truncating", () => {
+    const truncated = tokenizer.truncate("🦊🦊🦊", 2);
+
+    expect(truncated).not.toContain("�");
+    expect("🦊🦊🦊".startsWith(truncated)).toBe(true);
+  });
+});
+
+describe("ApproximateTokenizer", () => {
+  it("should estimate four characters per token by default", () => {
+    const tokenizer = new ApproximateTokenizer();
+
+    expect(tokenizer.count("abcdefghi")).toBe(3);
+    expect(tokenizer.truncate("abcdefghi", 2)).toBe("abcdefgh");
+  });
+
+  it("should accept a custom ratio", () => {
+    expect(new ApproximateTokenizer(2).count("abcdef")).toBe(3);
+  });
+});
@@ -1,19 +1,154 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Reranker, RerankOptions } from "./rerankers";
+import type { Filter } from "./filters";
+import type { DistanceMetric } from "./schema";
+import type { LifecycleHooks } from "./hooks";
+import type {
+  EmbeddingPriceTable,
+  EmbeddingResponse,
+  UsageMeter,
+  UsageOptions,
+  UsageReport,
+} from "./usage";
 
-export interface EmbeddingsConfig {
-  provider?: "openai";
+export type EmbeddingInputType = "query" | "document";
+
+// Per input type prefix, or a template containing `{text}`
+export type InputTypeTemplates = Partial<Record<EmbeddingInputType, string>>;
+
+export interface OpenAIProviderOptions {
+  organization?: string;
+  baseURL?: string;
+  headers?: Record<string, string>;
+  dimensions?: number;
+  inputTemplates?: InputTypeTemplates;
+  // Retries inside the OpenAI SDK, on top of SupabaseAIOptions.retry (default: 0)
+  maxRetries?: number;
+}
+
+export interface OpenAICompatibleProviderOptions {
+  baseURL: string;
+  apiKey?: string;
+  organization?: string;
+  headers?: Record<string, string>;
+  path?: string;
+  dimensions?: number;
+  modelDimensions?: Record<string, number>;
+  timeoutMs?: number;
+  maxBatchSize?: number;
+  maxBatchTokens?: number;
+  maxInputTokens?: number;
+  fetch?: typeof fetch;
+  inputTemplates?: InputTypeTemplates;
+  // Request body field that carries the input type, e.g. "input_type"
+  inputTypeField?: string;
+  inputTypeValues?: Partial<Record<EmbeddingInputType, string>>;
+}
+
+export interface HashProviderOptions {
+  dimensions?: number;
+  charNgrams?: [number, number];
+  wordBigrams?: boolean;
+  lowercase?: boolean;
+  inputTemplates?: InputTypeTemplates;
+}
+
+// Maps provider names to their `providerOptions` type. Custom providers can
+// add an entry through module augmentation to get typed options.
+export interface EmbeddingProviderOptionsMap {
+  openai: OpenAIProviderOptions;
+  "openai-compatible": OpenAICompatibleProviderOptions;
+  hash: HashProviderOptions;
+}
+
+export type EmbeddingProviderName =
+  | keyof EmbeddingProviderOptionsMap
+  | (string & {});
+
+export type EmbeddingProviderOptions<P extends EmbeddingProviderName> =
+  P extends keyof EmbeddingProviderOptionsMap
+    ? EmbeddingProviderOptionsMap[P]
+    : Record<string, unknown>;
+
+export interface EmbeddingsConfig<
+  P extends EmbeddingProviderName = EmbeddingProviderName
+> {
+  provider?: P;
+  providerOptions?: EmbeddingProviderOptions<P>;
   model?: string;
   table?: string;
   threshold?: number;
+  // Must match the metric the RPC functions and index use (default: "cosine")
+  metric?: DistanceMetric;
+}
+
+export interface ResolvedEmbeddingsConfig {
+  provider: string;
+  model: string;
+  table: string;
+  threshold: number;
+  metric: DistanceMetric;
+}
+
+export interface RetryEvent {
+  attempt: number;
+  delayMs: number;
+  error: Error;
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffMultiplier?: number;
+  jitter?: boolean;
+  respectRetryAfter?: boolean;
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export interface RateLimitOptions {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface EmbeddingCacheEntry {
+  key: string;
+  embedding: number[];
+}
+
+export interface EmbeddingCacheStore {
+  // Resolves to one entry per key, undefined for misses
+  get(keys: string[]): Promise<(number[] | undefined)[]>;
+  set(entries: EmbeddingCacheEntry[]): Promise<void>;
 }
 
-export interface SupabaseAIOptions {
-  apiKey: string;
-  embeddings?: EmbeddingsConfig;
+export interface CacheStats {
+  hits: number;
+  misses: number;
 }
 
-export interface CreateOptions {
+export interface SupabaseAIOptions<
+  P extends EmbeddingProviderName = EmbeddingProviderName
+> {
+  apiKey?: string;
+  embeddings?: EmbeddingsConfig<P>;
+  embeddingProvider?: EmbeddingProvider;
+  retry?: RetryOptions | false;
+  rateLimit?: RateLimitOptions;
+  // `true` uses an in-memory LRU cache
+  cache?: EmbeddingCacheStore | boolean;
+  // Default reranker for search({ rerank })
+  reranker?: Reranker;
+  // Observers for embed, search and store calls, e.g. tracing
+  hooks?: LifecycleHooks | LifecycleHooks[];
+  // Merged over the built-in prices of OpenAI's embedding models
+  pricing?: EmbeddingPriceTable;
+  usageMeter?: UsageMeter;
+}
+
+export interface CreateOptions extends UsageOptions {
   model?: string;
+  inputType?: EmbeddingInputType;
 }
 
 export interface StoreData {
@@ -32,22 +167,210 @@ export interface LangChainDocument {
 
 export type StoreInput = StoreData | LangChainDocument;
 
-export interface StoreOptions {
+export interface StoreOptions extends UsageOptions {
   table?: string;
   generateId?: boolean;
   batchSize?: number;
+  embeddingBatchSize?: number;
+  maxBatchTokens?: number;
+  concurrency?: number;
+  // Inputs over the provider's token limit are truncated instead of rejected
+  truncate?: boolean;
+  // Overrides the provider's per-input token limit
+  maxInputTokens?: number;
+  upsert?: boolean;
+  // Conflict target for upserts (default: "id")
+  onConflict?: string;
+  // Column holding a SHA-256 hash of the normalized content
+  hashColumn?: string;
+  // Keep writing later batches when one fails and report the failures
+  continueOnError?: boolean;
+  // From a previous result: skips completed items and reuses saved embeddings
+  checkpoint?: StoreCheckpoint;
+}
+
+export interface StoreResult {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  // One entry per write batch that was attempted
+  batches: StoreBatchResult[];
+  failed: StoreFailure[];
+  // Set when some items were not written; pass it back with the same data
+  checkpoint?: StoreCheckpoint;
+  // Tokens spent embedding the items, whether or not they were written
+  usage?: UsageReport;
+}
+
+export interface StoreBatchResult {
+  // Positions in the input array of the items in this batch
+  items: number[];
+  // Ids of the rows, for items that had or were given one
+  ids: string[];
+  // Set when the batch failed
+  error?: string;
 }
 
-export interface SearchOptions {
+export interface StoreFailure {
+  index: number;
+  id?: string;
+  reason: string;
+}
+
+export interface StoreCheckpoint {
+  // Length of the input the checkpoint belongs to
+  total: number;
+  // Positions that were written or skipped as unchanged
+  completed: number[];
+  // Embeddings of items that were embedded but not written, by position
+  embeddings: Record<number, number[]>;
+}
+
+// Running totals reported after each batch of storeStream()
+export interface StoreProgress {
+  // Items read from the source so far
+  processed: number;
+  embedded: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface StoreStreamOptions extends Omit<StoreOptions, "checkpoint"> {
+  // Awaited before the next batch is read
+  onProgress?: (progress: StoreProgress) => void | Promise<void>;
+}
+
+export interface FilterOptions {
+  table?: string;
+  // Column equality filters, as in SearchOptions.filters
+  filters?: Record<string, any>;
+  // JSON containment filter on metadata, as in SearchOptions.metadata
+  metadata?: Record<string, any>;
+}
+
+export interface GetOptions extends FilterOptions {
+  select?: string;
+}
+
+export interface DeleteOptions extends FilterOptions {
+  ids?: string[];
+}
+
+export interface DeleteResult {
+  deleted: number;
+}
+
+export type UpdateData = Partial<Omit<StoreData, "id">>;
+
+export interface UpdateOptions extends UsageOptions {
+  table?: string;
+  hashColumn?: string;
+}
+
+export interface SearchOptions extends UsageOptions {
   table?: string;
   limit?: number;
   threshold?: number;
   filters?: Record<string, any>;
   metadata?: Record<string, any>;
+  // Typed filter, evaluated by the match_documents_filtered RPC
+  where?: Filter;
   select?: string;
   orderBy?: "similarity" | "created_at" | string;
   includeDistance?: boolean;
   rpc?: string;
+  // Overrides the client's metric for this query
+  metric?: DistanceMetric;
+  // Index settings applied with SET LOCAL for this query
+  tuning?: SearchTuning;
+  // Skip the vector index and compare every row, e.g. to measure recall
+  exact?: boolean;
+  // Return a SearchPage; pass its nextCursor back as `cursor` for the next one
+  paginate?: boolean;
+  cursor?: string;
+  // Return the best chunk per source document instead of every chunk
+  groupBySource?: boolean | GroupBySourceOptions;
+  // Re-rank candidates with maximal marginal relevance for diverse results
+  mmr?: boolean | MmrOptions;
+  // Score candidates with a second-stage reranker
+  rerank?: boolean | RerankOptions;
+}
+
+export interface SearchTuning {
+  // hnsw.ef_search: candidates kept while walking an HNSW index (pgvector default: 40)
+  efSearch?: number;
+  // ivfflat.probes: lists scanned in an ivfflat index (pgvector default: 1)
+  probes?: number;
+  // pgvector 0.8+: keep scanning until enough rows pass the filters
+  iterativeScan?: "off" | "relaxed_order" | "strict_order";
+}
+
+export interface MmrOptions {
+  // 1 favours relevance only, 0 diversity only (default: 0.5)
+  lambda?: number;
+  // Candidates fetched before re-ranking (default: limit * 4)
+  fetchK?: number;
+}
+
+export type FusionMethod = "rrf" | "weighted";
+
+export interface HybridSearchOptions extends UsageOptions {
+  table?: string;
+  limit?: number;
+  // Similarity threshold for the vector leg
+  threshold?: number;
+  filters?: Record<string, any>;
+  metadata?: Record<string, any>;
+  where?: Filter;
+  // Metric, tuning and exact search for the vector leg, as in search()
+  metric?: DistanceMetric;
+  tuning?: SearchTuning;
+  exact?: boolean;
+  // "rrf" (reciprocal rank fusion, default) or "weighted" score blending
+  fusion?: FusionMethod;
+  // Relative weight of each leg (default: 1 each)
+  weights?: { vector?: number; text?: number };
+  // RRF damping constant (default: 60)
+  rrfK?: number;
+  // Postgres text search configuration (default: "english")
+  language?: string;
+  // Candidates fetched by each leg before fusion (default: limit * 2)
+  vectorLimit?: number;
+  textLimit?: number;
+  vectorRpc?: string;
+  textRpc?: string;
+}
+
+export interface HybridSearchResult extends SearchResult {
+  // Fused score used for ordering
+  score: number;
+  // Similarity from the vector leg, null if only text matched
+  vector_score: number | null;
+  // Normalized full-text rank in [0, 1), null if only the vector leg matched
+  text_score: number | null;
+}
+
+export interface GroupBySourceOptions {
+  // Chunks fetched before grouping (default: limit * 5)
+  candidates?: number;
+  // Attach the parent row from the sources table
+  includeSource?: boolean;
+  // Attach this many neighbouring chunks on each side of the best chunk
+  neighbors?: number;
+  // Default: `${table}_sources` for the searched table
+  sourcesTable?: string;
+}
+
+export interface SourceDocument {
+  id: string;
+  content?: string;
+  url?: string;
+  title?: string;
+  metadata?: Record<string, any>;
+  created_at?: string;
+  [key: string]: any;
 }
 
 export interface SearchResult {
@@ -55,17 +378,78 @@ export interface SearchResult {
   content: string;
   metadata?: Record<string, any>;
   similarity?: number;
+  // Set when results were reranked
+  rerankScore?: number;
   created_at?: string;
   [key: string]: any;
 }
 
+export interface SearchPage {
+  results: SearchResult[];
+  // null on the last page
+  nextCursor: string | null;
+}
+
+// Position of the last row of a page, ordered by similarity then id
+export interface SearchCursor {
+  similarity: number;
+  id: string;
+}
+
+export interface GroupedSearchResult extends SearchResult {
+  source_id: string;
+  // Number of fetched chunks that belong to this source
+  matches: number;
+  source?: SourceDocument | null;
+  // The best chunk and its neighbours, in document order
+  context?: SearchResult[];
+}
+
 export interface EmbeddingProvider {
   createEmbedding(
     input: string | string[],
     options?: CreateOptions
   ): Promise<number[][]>;
+  // Same as createEmbedding, plus the usage the provider reported
+  createEmbeddingWithUsage?(
+    input: string | string[],
+    options?: CreateOptions
+  ): Promise<EmbeddingResponse>;
   getModel(): string;
   getDimensions(): number;
+  // Identifies the provider in errors, e.g. "openai"
+  name?: string | undefined;
+  // Upper bounds for a single createEmbedding request, used by store()
+  maxBatchSize?: number | undefined;
+  maxBatchTokens?: number | undefined;
+  // Per-input token limit and the tokenizer that measures it
+  maxInputTokens?: number | undefined;
+  tokenizer?: Tokenizer | undefined;
+}
+
+export interface Tokenizer {
+  count(text: string): number;
+  // Returns the longest prefix of text that fits in maxTokens
+  truncate(text: string, maxTokens: number): string;
+  // For tokenizers that load their data on demand: resolves once counts are
+  // exact. Until then count and truncate may estimate.
+  load?(): Promise<void>;
+}
+
+export interface EmbeddingProviderFactoryConfig<O = Record<string, unknown>> {
+  apiKey?: string;
+  model: string;
+  options: O;
+}
+
+export type EmbeddingProviderFactory<O = Record<string, unknown>> = (
+  config: EmbeddingProviderFactoryConfig<O>
+) => EmbeddingProvider;
+
+export interface EmbeddingProviderRegistration<O = Record<string, unknown>> {
+  factory: EmbeddingProviderFactory<O>;
+  requiresApiKey?: boolean;
+  defaultModel?: string;
 }
 
 export interface EmbeddingsClientConfig {
@@ -73,4 +457,9 @@ export interface EmbeddingsClientConfig {
   provider: EmbeddingProvider;
   table?: string;
   threshold?: number;
+  metric?: DistanceMetric;
+  reranker?: Reranker;
+  hooks?: LifecycleHooks | LifecycleHooks[];
+  pricing?: EmbeddingPriceTable;
+  usageMeter?: UsageMeter;
 }
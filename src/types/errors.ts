@@ -1,3 +1,5 @@
+import type { StoreResult } from "./embeddings";
+
 export class SupabaseAIError extends Error {
   constructor(message: string, public code?: string) {
     super(message);
@@ -6,12 +8,58 @@ export class SupabaseAIError extends Error {
 }
 
 export class EmbeddingProviderError extends SupabaseAIError {
-  constructor(message: string, public provider: string) {
+  constructor(
+    message: string,
+    public provider: string,
+    public status?: number
+  ) {
     super(message, "EMBEDDING_PROVIDER_ERROR");
     this.name = "EmbeddingProviderError";
   }
 }
 
+export class RateLimitError extends EmbeddingProviderError {
+  constructor(
+    message: string,
+    provider: string,
+    status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message, provider, status);
+    this.code = "RATE_LIMIT_ERROR";
+    this.name = "RateLimitError";
+  }
+}
+
+export class AuthenticationError extends EmbeddingProviderError {
+  constructor(message: string, provider: string, status?: number) {
+    super(message, provider, status);
+    this.code = "AUTHENTICATION_ERROR";
+    this.name = "AuthenticationError";
+  }
+}
+
+export class InputTooLongError extends EmbeddingProviderError {
+  constructor(message: string, provider: string, status?: number) {
+    super(message, provider, status);
+    this.code = "INPUT_TOO_LONG_ERROR";
+    this.name = "InputTooLongError";
+  }
+}
+
+export class TransientProviderError extends EmbeddingProviderError {
+  constructor(
+    message: string,
+    provider: string,
+    status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message, provider, status);
+    this.code = "TRANSIENT_PROVIDER_ERROR";
+    this.name = "TransientProviderError";
+  }
+}
+
 export class DatabaseError extends SupabaseAIError {
   constructor(message: string, public originalError?: any) {
     super(message, "DATABASE_ERROR");
@@ -19,6 +67,21 @@ export class DatabaseError extends SupabaseAIError {
   }
 }
 
+// Thrown by store() when a write batch fails without continueOnError. Earlier
+// batches are already committed; `result` says which, and its checkpoint
+// resumes the rest.
+export class StoreBatchError extends DatabaseError {
+  constructor(
+    message: string,
+    public result: StoreResult,
+    originalError?: any
+  ) {
+    super(message, originalError);
+    this.code = "STORE_BATCH_ERROR";
+    this.name = "StoreBatchError";
+  }
+}
+
 export class ValidationError extends SupabaseAIError {
   constructor(message: string, public field?: string) {
     super(message, "VALIDATION_ERROR");
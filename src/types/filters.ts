@@ -0,0 +1,52 @@
+export type FilterValue = string | number | boolean | null;
+
+export interface FieldOperators {
+  eq?: FilterValue;
+  neq?: FilterValue;
+  gt?: string | number;
+  gte?: string | number;
+  lt?: string | number;
+  lte?: string | number;
+  in?: FilterValue[];
+  // JSON containment, for jsonb columns and metadata paths
+  contains?: unknown;
+  exists?: boolean;
+}
+
+// A bare value is shorthand for { eq: value }
+export type FieldCondition = FilterValue | FieldOperators;
+
+export interface LogicalFilter {
+  and?: Filter[];
+  or?: Filter[];
+  not?: Filter;
+}
+
+// Keys are column names, or dotted metadata paths such as "metadata.author.name".
+// Several keys in one object are combined with AND.
+export type FieldFilter = { [field: string]: FieldCondition };
+
+export type Filter = LogicalFilter | FieldFilter;
+
+export type ComparisonOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "contains"
+  | "exists";
+
+// Parameterized form evaluated by the compile_filter SQL function. Column
+// names are quoted as identifiers there and every value as a literal.
+export type CompiledFilter =
+  | { op: "and" | "or"; args: CompiledFilter[] }
+  | { op: "not"; arg: CompiledFilter }
+  | {
+      op: ComparisonOperator;
+      column: string;
+      path: string[];
+      value?: unknown;
+    };
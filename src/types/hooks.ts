@@ -0,0 +1,82 @@
+import type { EmbeddingInputType } from "./embeddings";
+
+export type HookOperation =
+  | "create"
+  | "search"
+  | "hybridSearch"
+  | "store"
+  | "update";
+
+export interface HookEvent {
+  // Shared by the before, after and error events of one call
+  id: string;
+  // The call this one runs inside, e.g. the search a query embedding is for
+  parentId?: string;
+  operation: HookOperation;
+}
+
+export interface EmbedEvent extends HookEvent {
+  model: string;
+  inputs: number;
+  inputType?: EmbeddingInputType;
+  table?: string;
+}
+
+export interface AfterEmbedEvent extends EmbedEvent {
+  durationMs: number;
+  // As reported by the provider, or counted locally when it reports none
+  tokens: number;
+}
+
+export interface SearchEvent extends HookEvent {
+  table: string;
+  query: string;
+  limit: number;
+}
+
+export interface SearchTimings {
+  embedMs: number;
+  rpcMs: number;
+  // Reranking, MMR, grouping and the other client-side steps
+  postProcessMs: number;
+}
+
+export interface AfterSearchEvent extends SearchEvent {
+  durationMs: number;
+  results: number;
+  // Only for search(); hybridSearch() nests a search event of its own
+  timings?: SearchTimings;
+}
+
+export interface StoreEvent extends HookEvent {
+  table: string;
+  items: number;
+}
+
+export interface AfterStoreEvent extends StoreEvent {
+  durationMs: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface HookErrorEvent extends HookEvent {
+  stage: "embed" | "search" | "store";
+  table?: string;
+  durationMs: number;
+  error: unknown;
+}
+
+// Called synchronously; errors thrown by a hook are ignored so that
+// instrumentation can never fail the call it observes
+export interface LifecycleHooks {
+  beforeEmbed?: (event: EmbedEvent) => void;
+  afterEmbed?: (event: AfterEmbedEvent) => void;
+  beforeSearch?: (event: SearchEvent) => void;
+  afterSearch?: (event: AfterSearchEvent) => void;
+  beforeStore?: (event: StoreEvent) => void;
+  afterStore?: (event: AfterStoreEvent) => void;
+  // Ends a call instead of its after hook
+  onError?: (event: HookErrorEvent) => void;
+}
@@ -1,2 +1,8 @@
 export * from "./embeddings";
 export * from "./errors";
+export * from "./splitters";
+export * from "./rerankers";
+export * from "./filters";
+export * from "./schema";
+export * from "./hooks";
+export * from "./usage";
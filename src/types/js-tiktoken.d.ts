@@ -0,0 +1,8 @@
+// js-tiktoken only exposes its rank files through package exports, which the
+// "node" module resolution used by this package does not read
+declare module "js-tiktoken/ranks/cl100k_base" {
+  import type { TiktokenBPE } from "js-tiktoken/lite";
+
+  const ranks: TiktokenBPE;
+  export default ranks;
+}
@@ -0,0 +1,43 @@
+export interface RerankResult {
+  // Position of the document in the input array
+  index: number;
+  score: number;
+}
+
+export interface Reranker {
+  // Scores documents against the query, best first. With topN, only the
+  // best topN results are returned.
+  rerank(
+    query: string,
+    documents: string[],
+    options?: { topN?: number }
+  ): Promise<RerankResult[]>;
+}
+
+export interface RerankOptions {
+  // Overrides the reranker configured on the client
+  reranker?: Reranker;
+  // Candidates fetched for reranking (default: limit * 4, at most 100)
+  candidates?: number;
+  // Results kept after reranking (default: limit)
+  topN?: number;
+}
+
+export interface HttpRerankerOptions {
+  // Full endpoint URL, e.g. https://api.cohere.com/v2/rerank
+  url: string;
+  apiKey?: string;
+  model?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+  // Request body field carrying the candidate count limit (default: "top_n")
+  topNField?: string;
+}
+
+export interface LexicalRerankerOptions {
+  // BM25 term frequency saturation (default: 1.2)
+  k1?: number;
+  // BM25 length normalization (default: 0.75)
+  b?: number;
+}
@@ -0,0 +1,120 @@
+export type DistanceMetric = "cosine" | "inner_product" | "l2";
+
+export type VectorIndexOptions =
+  | "hnsw"
+  | "ivfflat"
+  | "none"
+  | { type: "hnsw"; m?: number; efConstruction?: number }
+  | { type: "ivfflat"; lists?: number };
+
+export interface SchemaGenerateOptions {
+  // Default: the client's embeddings table
+  table?: string;
+  // Default: the embedding provider's dimensions
+  dimensions?: number;
+  // Default: the client's metric
+  metric?: DistanceMetric;
+  // Default: "hnsw"
+  index?: VectorIndexOptions;
+  // Parent documents table, or false to skip it (default: `${table}_sources`)
+  sourcesTable?: string | false;
+  // Include the RPC functions used by the client (default: true)
+  functions?: boolean;
+  // Text search configuration for the full-text index (default: "english")
+  language?: string;
+  // Used for the migration file name (default: now)
+  timestamp?: Date;
+}
+
+export interface ResolvedSchemaOptions {
+  table: string;
+  dimensions: number;
+  metric: DistanceMetric;
+  index: VectorIndexOptions;
+  sourcesTable: string | false;
+  functions: boolean;
+  language: string;
+  timestamp: Date;
+}
+
+export interface GeneratedMigration {
+  // e.g. "create_documents"
+  name: string;
+  // Supabase CLI migration file name, e.g. "20250101120000_create_documents.sql"
+  filename: string;
+  sql: string;
+}
+
+export interface VerifyOptions {
+  // Default: the client's embeddings table
+  table?: string;
+  // Default: the embedding provider's dimensions
+  dimensions?: number;
+  // Metric the vector index should serve (default: the client's)
+  metric?: DistanceMetric;
+  // RPC functions that must exist (default: the ones the client calls)
+  functions?: string[];
+  // Expected row level security state. When unset, disabled RLS is a warning.
+  rls?: boolean;
+  // Inspection RPC (default: "inspect_embeddings_table")
+  inspectRpc?: string;
+}
+
+export interface CreateIndexOptions {
+  // Default: the client's embeddings table
+  table?: string;
+  // Default: the client's metric
+  metric?: DistanceMetric;
+  // Default: "hnsw". ivfflat without lists sizes them from the row count.
+  index?: Exclude<VectorIndexOptions, "none">;
+  // Drop the existing index first, e.g. to rebuild with new parameters
+  replace?: boolean;
+  // Default: "create_embedding_index"
+  rpc?: string;
+}
+
+export interface IndexInfo {
+  name: string;
+  method: string;
+  definition: string;
+}
+
+// Returned by the inspect_embeddings_table RPC
+export interface TableInspection {
+  extension: string | null;
+  table_exists: boolean;
+  rls_enabled: boolean | null;
+  policies: number;
+  embedding_type: string | null;
+  embedding_dimensions: number | null;
+  indexes: IndexInfo[];
+  functions: string[];
+}
+
+export type VerifyCheckName =
+  | "inspect"
+  | "extension"
+  | "table"
+  | "embedding_column"
+  | "dimensions"
+  | "index"
+  | "functions"
+  | "rls";
+
+export type VerifyStatus = "pass" | "warn" | "fail";
+
+export interface VerifyCheck {
+  name: VerifyCheckName;
+  status: VerifyStatus;
+  message: string;
+  // SQL or steps that resolve a warning or failure
+  fix?: string;
+}
+
+export interface VerifyReport {
+  // False when any check failed; warnings do not count
+  ok: boolean;
+  table: string;
+  dimensions: number;
+  checks: VerifyCheck[];
+}
@@ -0,0 +1,65 @@
+import type { StoreOptions, StoreResult, Tokenizer } from "./embeddings";
+
+export interface TextChunk {
+  text: string;
+  // Character offsets into the source text: text === source.slice(start, end)
+  start: number;
+  end: number;
+  metadata?: Record<string, any>;
+}
+
+export interface TextSplitter {
+  split(text: string): TextChunk[];
+}
+
+export interface TextSplitterOptions {
+  chunkSize?: number;
+  chunkOverlap?: number;
+  // Measures chunkSize and chunkOverlap (default: characters)
+  lengthFunction?: (text: string) => number;
+  // Measures in tokens instead; ignored when lengthFunction is set
+  tokenizer?: Tokenizer;
+}
+
+export interface RecursiveTextSplitterOptions extends TextSplitterOptions {
+  separators?: string[];
+}
+
+export type CodeLanguage =
+  | "javascript"
+  | "typescript"
+  | "python"
+  | "go"
+  | "rust"
+  | "java"
+  | "ruby"
+  | "php";
+
+export interface CodeTextSplitterOptions extends TextSplitterOptions {
+  language: CodeLanguage;
+}
+
+export type TextSplitterConfig =
+  | ({ type: "recursive" } & RecursiveTextSplitterOptions)
+  | ({ type: "sentence" } & TextSplitterOptions)
+  | ({ type: "markdown" } & TextSplitterOptions)
+  | ({ type: "code" } & CodeTextSplitterOptions);
+
+export interface IngestOptions extends StoreOptions {
+  splitter?: TextSplitter | TextSplitterConfig;
+  // Also store each document as a parent row that its chunks reference
+  sources?: boolean | IngestSourceOptions;
+}
+
+export interface IngestSourceOptions {
+  // Default: `${table}_sources` for the chunks' table
+  table?: string;
+  // Keep the full document text on the parent row (default: true)
+  storeContent?: boolean;
+}
+
+export interface IngestResult extends StoreResult {
+  documents: number;
+  chunks: number;
+  sourceIds: string[];
+}
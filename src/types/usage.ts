@@ -0,0 +1,44 @@
+import type { HookOperation } from "./hooks";
+
+export interface EmbeddingUsage {
+  // Input tokens billed for the request
+  tokens: number;
+  // Counted locally because the provider reported no usage
+  estimated?: boolean;
+}
+
+export interface EmbeddingResponse {
+  embeddings: number[][];
+  usage?: EmbeddingUsage;
+}
+
+// Price per million input tokens, keyed by model
+export type EmbeddingPriceTable = Record<string, number>;
+
+export interface UsageSummary {
+  tokens: number;
+  // The part of `tokens` that was counted locally
+  estimatedTokens: number;
+  // Absent when a model that used tokens has no price
+  cost?: number;
+}
+
+export interface UsageReport extends UsageSummary {
+  byModel: Record<string, UsageSummary>;
+}
+
+// What one create, store, search or update call spent
+export interface UsageRecord extends UsageReport {
+  operation: HookOperation;
+  table?: string;
+  tags?: Record<string, string>;
+}
+
+// Receives a record after every call, including failed ones; errors it
+// throws are ignored
+export type UsageMeter = (record: UsageRecord) => void;
+
+export interface UsageOptions {
+  // Passed to the usage meter, e.g. to attribute spend to a tenant or job
+  usageTags?: Record<string, string>;
+}
@@ -1,3 +1,5 @@
+import type { DistanceMetric } from '../types/schema'
+
 export function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length !== b.length) {
     throw new Error('Vectors must have the same length')
@@ -54,4 +56,22 @@ export function normalize(vector: number[]): number[] {
   const mag = magnitude(vector)
   if (mag === 0) return vector
   return vector.map(component => component / mag)
+}
+
+// Similarity under a distance metric, higher is better. Matches the
+// similarity the RPC functions return: cosine similarity, the inner product,
+// or 1 / (1 + euclidean distance).
+export function vectorSimilarity(
+  a: number[],
+  b: number[],
+  metric: DistanceMetric = 'cosine'
+): number {
+  switch (metric) {
+    case 'inner_product':
+      return dotProduct(a, b)
+    case 'l2':
+      return 1 / (1 + euclideanDistance(a, b))
+    default:
+      return cosineSimilarity(a, b)
+  }
 }
\ No newline at end of file